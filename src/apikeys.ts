@@ -0,0 +1,164 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync, unwatchFile, watchFile } from "node:fs";
+import { z } from "zod";
+import { globToRegExp } from "./patterns.js";
+import { RateLimitRulesSchema } from "./ratelimit.js";
+
+/* ---------------------------------------------------------------------------
+ * API keys
+ *
+ * Named keys from a key file (API_KEYS_FILE), from hashed entries in
+ * API_KEYS, and the single legacy MCP_API_KEY. Each key can expire and can
+ * be scoped to some tools, to some endpoints, to read-only use, and to its
+ * own rate limits. Only SHA-256 digests are kept in memory, and a presented
+ * key is compared against every digest in constant time.
+ * ------------------------------------------------------------------------- */
+
+// A key's own limits replace the `key` and `session` rules of RATE_LIMITS
+const KeyRateLimitRulesSchema = RateLimitRulesSchema.omit({ global: true });
+
+const ApiKeyEntrySchema = z
+  .object({
+    name: z.string().min(1),
+    /** The key itself; only accepted in the key file */
+    key: z.string().min(16).optional(),
+    /** Hex SHA-256 digest of the key */
+    hash: z
+      .string()
+      .regex(/^(sha256:)?[0-9a-f]{64}$/i, "hash must be a hex SHA-256 digest")
+      .optional(),
+    expires: z.coerce.date().optional(),
+    /** Tool names or glob patterns such as `query-*`; all tools when unset */
+    tools: z.array(z.string()).optional(),
+    /** Mutations additionally need the endpoint to allow them */
+    allowMutations: z.boolean().default(true),
+    /** Endpoint names; all endpoints when unset */
+    endpoints: z.array(z.string()).optional(),
+    rateLimits: z
+      .object({
+        requests: KeyRateLimitRulesSchema.optional(),
+        tools: z.record(KeyRateLimitRulesSchema).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .refine((entry) => Boolean(entry.key) !== Boolean(entry.hash), "each key needs exactly one of 'key' or 'hash'");
+
+const KeyFileSchema = z.object({ keys: z.array(ApiKeyEntrySchema) });
+
+export type ApiKey = Omit<z.infer<typeof ApiKeyEntrySchema>, "key" | "hash">;
+
+export type AuthResult =
+  | { ok: true; key: ApiKey }
+  | { ok: false; reason: "missing" | "invalid" | "expired"; key?: ApiKey };
+
+export interface ApiKeyStore {
+  /** False when no key is configured and the server is open */
+  readonly enabled: boolean;
+  authenticate(presented: string | undefined): AuthResult;
+  /** Re-read the key file whenever it changes */
+  start(): void;
+  stop(): void;
+}
+
+export interface ApiKeyStoreOptions {
+  file?: string;
+  /** JSON array of key entries; only hashed keys are accepted here */
+  inline?: string;
+  legacyKey?: string;
+}
+
+/** Hex SHA-256 digest of a key, the form stored in API_KEYS and key files */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+interface StoredKey {
+  key: ApiKey;
+  digest: Buffer;
+}
+
+function toStoredKey(entry: z.infer<typeof ApiKeyEntrySchema>): StoredKey {
+  const { key: secret, hash, ...key } = entry;
+  const digest = secret ? hashApiKey(secret) : hash!.replace(/^sha256:/i, "").toLowerCase();
+  return { key, digest: Buffer.from(digest, "hex") };
+}
+
+function parseKeys(entries: z.infer<typeof ApiKeyEntrySchema>[], source: string): StoredKey[] {
+  const names = new Set<string>();
+  return entries.map((entry) => {
+    if (names.has(entry.name)) throw new Error(`Duplicate API key name '${entry.name}' in ${source}`);
+    names.add(entry.name);
+    return toStoredKey(entry);
+  });
+}
+
+function loadKeyFile(file: string): StoredKey[] {
+  return parseKeys(KeyFileSchema.parse(JSON.parse(readFileSync(file, "utf8"))).keys, file);
+}
+
+function loadInlineKeys(inline: string): StoredKey[] {
+  const entries = z.array(ApiKeyEntrySchema).parse(JSON.parse(inline));
+  if (entries.some((entry) => entry.key)) {
+    throw new Error("API_KEYS may only contain hashed keys; put plain keys in API_KEYS_FILE");
+  }
+  return parseKeys(entries, "API_KEYS");
+}
+
+/** Throws on an invalid key file or API_KEYS value, so startup fails loudly */
+export function createApiKeyStore(options: ApiKeyStoreOptions): ApiKeyStore {
+  const fixed: StoredKey[] = [];
+  if (options.legacyKey) {
+    fixed.push({ key: { name: "default", allowMutations: true }, digest: Buffer.from(hashApiKey(options.legacyKey), "hex") });
+  }
+  if (options.inline) fixed.push(...loadInlineKeys(options.inline));
+  let fromFile = options.file ? loadKeyFile(options.file) : [];
+
+  const all = () => [...fixed, ...fromFile];
+
+  return {
+    get enabled() {
+      return Boolean(options.file) || all().length > 0;
+    },
+
+    authenticate(presented) {
+      if (!presented) return { ok: false, reason: "missing" };
+      const digest = Buffer.from(hashApiKey(presented), "hex");
+      // Compare against every key so the time taken does not depend on which one matched
+      let match: ApiKey | undefined;
+      for (const stored of all()) {
+        if (timingSafeEqual(digest, stored.digest) && !match) match = stored.key;
+      }
+      if (!match) return { ok: false, reason: "invalid" };
+      if (match.expires && match.expires.getTime() <= Date.now()) return { ok: false, reason: "expired", key: match };
+      return { ok: true, key: match };
+    },
+
+    start() {
+      const file = options.file;
+      if (!file) return;
+      watchFile(file, { interval: 1000, persistent: false }, (curr, prev) => {
+        if (curr.mtimeMs === prev.mtimeMs) return;
+        try {
+          fromFile = loadKeyFile(file);
+          console.log(`[Auth] Reloaded ${fromFile.length} API key(s) from ${file}`);
+        } catch (error: any) {
+          // Keep the previous keys rather than locking everyone out
+          console.error(`[Auth] Failed to reload API keys from ${file}:`, error.message);
+        }
+      });
+    },
+
+    stop() {
+      if (options.file) unwatchFile(options.file);
+    },
+  };
+}
+
+export function toolAllowed(key: ApiKey, tool: string): boolean {
+  return !key.tools || key.tools.some((pattern) => globToRegExp(pattern).test(tool));
+}
+
+export function endpointAllowed(key: ApiKey, endpoint: string): boolean {
+  return !key.endpoints || key.endpoints.includes(endpoint);
+}
@@ -0,0 +1,118 @@
+import { appendFile, rename, stat } from "node:fs/promises";
+import { globToRegExp } from "./patterns.js";
+
+/* ---------------------------------------------------------------------------
+ * Audit log
+ *
+ * One JSON line per GraphQL tool call, appended to AUDIT_LOG. When the file
+ * would grow past its size limit it is rotated to `<file>.1`, shifting older
+ * files up to `<file>.<maxFiles>`. Writes are queued so records never
+ * interleave, and a failed write is reported without failing the call.
+ * ------------------------------------------------------------------------- */
+
+export interface AuditRecord {
+  timestamp: string;
+  sessionId: string | null;
+  /** Name of the API key the call was made with */
+  key: string;
+  tool: string;
+  endpoint: string | null;
+  operationName: string | null;
+  operationType: string | null;
+  /** The operation as sent upstream, normalized with `print` when it parsed */
+  query: string | null;
+  variables: unknown;
+  /** HTTP status of the upstream response; null when nothing was sent */
+  upstreamStatus: number | null;
+  /** Set when the result came from the result cache or a shared in-flight request */
+  cache?: "hit" | "shared";
+  durationMs: number;
+  /** Bytes of text returned to the caller */
+  resultBytes: number;
+  /** Why the call failed, or the GraphQL error messages */
+  error: string | null;
+}
+
+/** What the execution of one call found out, filled in as it goes */
+export interface AuditTrace {
+  endpoint?: string;
+  operationName?: string;
+  operationType?: string;
+  query?: string;
+  variables?: unknown;
+  upstreamStatus?: number;
+  cache?: "hit" | "shared";
+  graphqlErrors?: string[];
+}
+
+export interface AuditLog {
+  write(record: AuditRecord): void;
+  /** Resolves once every queued record is written */
+  flush(): Promise<void>;
+}
+
+export interface AuditLogOptions {
+  file: string;
+  /** Rotate before the file would exceed this many bytes; 0 never rotates */
+  maxBytes: number;
+  /** Rotated files to keep, at least 1 */
+  maxFiles: number;
+}
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Replace the values of variables (at any depth) whose names match one of
+ * the patterns, case-insensitively. `*` matches any run of characters.
+ */
+export function redactVariables(variables: unknown, patterns: string[]): unknown {
+  if (patterns.length === 0) return variables;
+  const matchers = patterns.map((pattern) => globToRegExp(pattern, { ignoreCase: true }));
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(redact);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, v]) => [name, matchers.some((m) => m.test(name)) ? REDACTED : redact(v)]),
+      );
+    }
+    return value;
+  };
+  return redact(variables);
+}
+
+export function createAuditLog(options: AuditLogOptions): AuditLog {
+  let size: number | null = null;
+  let queue: Promise<void> = Promise.resolve();
+
+  const rotate = async () => {
+    for (let i = options.maxFiles - 1; i >= 1; i--) {
+      await rename(`${options.file}.${i}`, `${options.file}.${i + 1}`).catch(() => undefined);
+    }
+    await rename(options.file, `${options.file}.1`).catch(() => undefined);
+    size = 0;
+  };
+
+  const append = async (line: string) => {
+    size ??= await stat(options.file).then((s) => s.size, () => 0);
+    const bytes = Buffer.byteLength(line);
+    if (options.maxBytes > 0 && size > 0 && size + bytes > options.maxBytes) await rotate();
+    await appendFile(options.file, line, { encoding: "utf8", mode: 0o600 });
+    size += bytes;
+  };
+
+  return {
+    write(record) {
+      const line = `${JSON.stringify(record)}\n`;
+      queue = queue
+        .then(() => append(line))
+        .catch((error) => {
+          // Unknown after a failure; re-read before the next write
+          size = null;
+          console.error(`[Audit] Failed to write audit record to ${options.file}:`, error.message);
+        });
+    },
+    flush() {
+      return queue;
+    },
+  };
+}
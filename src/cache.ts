@@ -0,0 +1,115 @@
+import { createHash } from "node:crypto";
+
+/* ---------------------------------------------------------------------------
+ * Result cache
+ *
+ * An LRU cache of upstream query results with a TTL per entry, plus
+ * deduplication of identical requests while they are in flight. Keys are
+ * built from everything that can change the answer: the endpoint, the
+ * normalized document, the variables and the caller's forwarded identity.
+ * ------------------------------------------------------------------------- */
+
+export interface CacheKeyParts {
+  endpoint: string;
+  /** Normalized operation document, or a hash of it */
+  document: string;
+  variables?: Record<string, unknown>;
+  /** Headers forwarded for the caller; callers with different credentials never share entries */
+  identity?: Record<string, string>;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  /** Milliseconds since the value was stored */
+  age: number;
+  /** Milliseconds until the value expires */
+  expiresIn: number;
+}
+
+export interface ResultCache<T> {
+  get(key: string): CacheHit<T> | undefined;
+  set(key: string, value: T, ttlMs: number): void;
+  /**
+   * Run `load`, or join an identical request that is already running.
+   * `shared` is true when the promise belongs to another caller.
+   */
+  dedupe<R>(key: string, load: () => Promise<R>): { promise: Promise<R>; shared: boolean };
+  /** Drop every entry; returns how many were dropped */
+  clear(): number;
+  readonly size: number;
+}
+
+interface Entry<T> {
+  value: T;
+  storedAt: number;
+  expires: number;
+}
+
+// Object keys sorted at every level, so `{a, b}` and `{b, a}` produce the same key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return createHash("sha256")
+    .update(stableStringify([parts.endpoint, parts.document, parts.variables ?? {}, parts.identity ?? {}]))
+    .digest("hex");
+}
+
+export function createResultCache<T>(options: { maxEntries: number }): ResultCache<T> {
+  // Map iteration follows insertion order, so re-inserting on access keeps it LRU
+  const entries = new Map<string, Entry<T>>();
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      const now = Date.now();
+      if (entry.expires <= now) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return { value: entry.value, age: now - entry.storedAt, expiresIn: entry.expires - now };
+    },
+
+    set(key, value, ttlMs) {
+      if (ttlMs <= 0 || options.maxEntries <= 0) return;
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, { value, storedAt: now, expires: now + ttlMs });
+      while (entries.size > options.maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    dedupe<R>(key: string, load: () => Promise<R>) {
+      const running = inFlight.get(key);
+      if (running) return { promise: running as Promise<R>, shared: true };
+      const promise = load().finally(() => {
+        inFlight.delete(key);
+      });
+      inFlight.set(key, promise);
+      return { promise, shared: false };
+    },
+
+    clear() {
+      const dropped = entries.size;
+      entries.clear();
+      return dropped;
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
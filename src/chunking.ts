@@ -0,0 +1,146 @@
+import {
+  Kind,
+  parse,
+  print,
+  type ConstDirectiveNode,
+  type DefinitionNode,
+  type FieldDefinitionNode,
+} from "graphql";
+
+/* ---------------------------------------------------------------------------
+ * Structure-aware schema chunking
+ *
+ * Instead of slicing the SDL into fixed-size character windows, every named
+ * definition becomes one document. Root types and large object/interface
+ * types additionally get one document per field so that a single field can
+ * be retrieved without dragging the rest of the type along.
+ * ------------------------------------------------------------------------- */
+
+export type SchemaDocumentKind =
+  | "schema"
+  | "object"
+  | "interface"
+  | "union"
+  | "enum"
+  | "input"
+  | "scalar"
+  | "directive"
+  | "field";
+
+export type RootOperation = "query" | "mutation" | "subscription";
+
+export interface SchemaDocument {
+  text: string;
+  kind: SchemaDocumentKind;
+  typeName: string;
+  fieldName?: string;
+  isRootField: boolean;
+  /** Root operation this field belongs to, for root fields only */
+  operation?: RootOperation;
+  deprecated: boolean;
+}
+
+// Types whose printed definition is larger than this also get per-field docs
+const DEFAULT_FIELD_SPLIT_THRESHOLD = 800;
+
+const DEFAULT_ROOT_TYPES: Record<string, RootOperation> = {
+  Query: "query",
+  Mutation: "mutation",
+  Subscription: "subscription",
+};
+
+function isDeprecated(directives?: readonly ConstDirectiveNode[]): boolean {
+  return directives?.some((d) => d.name.value === "deprecated") ?? false;
+}
+
+// Root operation type names, honouring an explicit `schema { ... }` block
+function rootTypeNames(definitions: readonly DefinitionNode[]): Map<string, RootOperation> {
+  const roots = new Map<string, RootOperation>();
+  for (const def of definitions) {
+    if (def.kind === Kind.SCHEMA_DEFINITION || def.kind === Kind.SCHEMA_EXTENSION) {
+      def.operationTypes?.forEach((op) => roots.set(op.type.name.value, op.operation));
+    }
+  }
+  return roots.size > 0 ? roots : new Map(Object.entries(DEFAULT_ROOT_TYPES));
+}
+
+function kindOf(def: DefinitionNode): SchemaDocumentKind | null {
+  switch (def.kind) {
+    case Kind.SCHEMA_DEFINITION:
+    case Kind.SCHEMA_EXTENSION:
+      return "schema";
+    case Kind.OBJECT_TYPE_DEFINITION:
+    case Kind.OBJECT_TYPE_EXTENSION:
+      return "object";
+    case Kind.INTERFACE_TYPE_DEFINITION:
+    case Kind.INTERFACE_TYPE_EXTENSION:
+      return "interface";
+    case Kind.UNION_TYPE_DEFINITION:
+    case Kind.UNION_TYPE_EXTENSION:
+      return "union";
+    case Kind.ENUM_TYPE_DEFINITION:
+    case Kind.ENUM_TYPE_EXTENSION:
+      return "enum";
+    case Kind.INPUT_OBJECT_TYPE_DEFINITION:
+    case Kind.INPUT_OBJECT_TYPE_EXTENSION:
+      return "input";
+    case Kind.SCALAR_TYPE_DEFINITION:
+    case Kind.SCALAR_TYPE_EXTENSION:
+      return "scalar";
+    case Kind.DIRECTIVE_DEFINITION:
+      return "directive";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Render a single field in the context of its parent type, e.g.
+ * `type Query { user(id: ID!): User }`, keeping description and directives.
+ */
+function fieldText(def: DefinitionNode, field: FieldDefinitionNode): string {
+  return print({ ...def, description: undefined, interfaces: [], directives: [], fields: [field] } as DefinitionNode);
+}
+
+/**
+ * Split a GraphQL SDL document into one document per named definition,
+ * plus one document per field for root types and large object types.
+ * @param schemaSDL - The schema in SDL form
+ * @param fieldSplitThreshold - Characters above which a non-root type is also split per field
+ * @returns The schema documents, in SDL order
+ */
+export function splitSchema(schemaSDL: string, fieldSplitThreshold = DEFAULT_FIELD_SPLIT_THRESHOLD): SchemaDocument[] {
+  const ast = parse(schemaSDL);
+  const roots = rootTypeNames(ast.definitions);
+  const documents: SchemaDocument[] = [];
+
+  for (const def of ast.definitions) {
+    const kind = kindOf(def);
+    if (!kind) continue;
+
+    const typeName = "name" in def && def.name ? def.name.value : "schema";
+    const text = print(def);
+    const operation = kind === "object" ? roots.get(typeName) : undefined;
+    const isRootType = operation !== undefined;
+
+    documents.push({ text, kind, typeName, isRootField: false, deprecated: false });
+
+    if (kind !== "object" && kind !== "interface") continue;
+    if (!isRootType && text.length <= fieldSplitThreshold) continue;
+
+    const fields = (def as { fields?: readonly FieldDefinitionNode[] }).fields ?? [];
+    for (const field of fields) {
+      documents.push({
+        text: fieldText(def, field),
+        kind: "field",
+        typeName,
+        fieldName: field.name.value,
+        isRootField: isRootType,
+        operation,
+        deprecated: isDeprecated(field.directives),
+      });
+    }
+  }
+
+  return documents;
+}
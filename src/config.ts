@@ -0,0 +1,417 @@
+/* ---------------------------------------------------------------------------
+ * config.ts ― environment variables and upstream GraphQL API configuration
+ * ------------------------------------------------------------------------- */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { HeaderPolicy, parseForwardRules, parseHeaderNames } from "./headers.js";
+import { EndpointSchemaSource, isSchemaUrl } from "./introspection.js";
+import { RateLimitConfigSchema } from "./ratelimit.js";
+import { directivesLostInIntrospection, lostDirectivesError, VisibilityRules, VisibilityRulesSchema } from "./visibility.js";
+
+/* ---------------------------------------------------------------------------
+ * Environment Variable Parsing
+ * ------------------------------------------------------------------------- */
+
+// A JSON-encoded environment variable, parsed into its value
+const jsonString = (name: string) =>
+	z.string().transform((val, ctx) => {
+		try {
+			return JSON.parse(val);
+		} catch (e: any) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: `${name} must be a valid JSON string: ${e.message}`,
+			});
+			return z.NEVER;
+		}
+	});
+
+// Optional positive integer limit; unset or 0 means unlimited
+const limit = () => z.coerce.number().int().nonnegative().optional();
+
+// Optional comma-separated list, trimmed, without empty entries
+const commaList = () =>
+	z
+		.string()
+		.optional()
+		.transform((val) => val ? val.split(",").map((s) => s.trim()).filter(Boolean) : undefined);
+
+const EnvSchema = z.object({
+	NAME: z.string().default("mcp-graphql-srv"),
+	TRANSPORT: z
+		.enum(["http", "stdio"])
+		.default("http")
+		.describe("Serve MCP over HTTP, or over stdin/stdout for clients that launch the server"),
+	ENDPOINT: z.string().url().default("http://localhost:4000/graphql"),
+	ALLOW_MUTATIONS: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false"),
+	HEADERS: jsonString("HEADERS").default("{}"),
+	SCHEMA: z
+		.string()
+		.optional()
+		.describe("SDL or introspection JSON file, directory or glob of .graphql files, or schema URL"),
+	ENDPOINT_SCHEMA: z
+		.enum(["introspection", "federation"])
+		.default("introspection")
+		.describe("How the schema is read from ENDPOINT when SCHEMA is unset; federation asks a subgraph for _service { sdl }"),
+	SCHEMA_VISIBILITY: jsonString("SCHEMA_VISIBILITY")
+		.pipe(VisibilityRulesSchema)
+		.default("{}")
+		.describe("Allow/deny rules for the types and fields agents may see and query"),
+	UPSTREAMS_CONFIG: z
+		.string()
+		.optional()
+		.describe("Path to a JSON file declaring several named upstream GraphQL APIs"),
+	VECTOR_STORE: z
+		.enum(["qdrant", "memory"])
+		.optional()
+		.describe("Where schema embeddings are stored; qdrant when QDRANT_URL is set, memory otherwise"),
+	VECTOR_STORE_PATH: z.string().optional().describe("JSON file the memory vector store is persisted to"),
+	QDRANT_URL: z.string().url().optional(),
+	QDRANT_API_KEY: z.string().optional(),
+	QDRANT_COLLECTION: z.string().default("graphql-schema"),
+	EMBED_PROVIDER: z
+		.enum(["openai", "openai-compatible", "local"])
+		.default("openai")
+		.describe("Embedding provider for schema search"),
+	EMBED_MODEL: z.string().default("text-embedding-3-small"),
+	EMBED_BASE_URL: z.string().url().optional().describe("Server of the openai-compatible embedding provider"),
+	EMBED_API_KEY: z.string().optional(),
+	EMBED_DIMENSIONS: z.coerce.number().int().positive().default(512).describe("Vector size of the local embedding provider"),
+	FIELD_SPLIT_THRESHOLD: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(800)
+		.describe("Characters above which a non-root type is also indexed per field"),
+	SEARCH_RRF_K: z.coerce
+		.number()
+		.positive()
+		.default(60)
+		.describe("Reciprocal-rank fusion constant; larger values flatten the gap between ranks"),
+	SEARCH_VECTOR_WEIGHT: z.coerce.number().nonnegative().default(1),
+	SEARCH_LEXICAL_WEIGHT: z.coerce.number().nonnegative().default(1),
+	SCHEMA_POLL_INTERVAL: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(0)
+		.describe("Seconds between schema reloads; 0 disables polling"),
+	SCHEMA_WATCH: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false"),
+	VALIDATE_QUERIES: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("true")
+		.describe("Validate operations against the loaded schema before forwarding them"),
+	MAX_QUERY_DEPTH: limit(),
+	MAX_QUERY_ALIASES: limit(),
+	MAX_ROOT_FIELDS: limit(),
+	MAX_QUERY_COST: limit(),
+	QUERY_COST_WEIGHTS: jsonString("QUERY_COST_WEIGHTS")
+		.pipe(z.record(z.number()))
+		.default("{}")
+		.describe("Cost per field, keyed by 'Type.field' or return type name"),
+	QUERY_LIST_SIZE_ARGS: commaList(),
+	QUERY_DEFAULT_LIST_SIZE: z.coerce.number().int().positive().default(10),
+	FIELD_TOOLS: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false")
+		.describe("Register one tool per root query/mutation field"),
+	FIELD_TOOLS_DEPTH: z.coerce.number().int().min(1).max(5).default(2),
+	FIELD_TOOLS_INCLUDE: commaList(),
+	FIELD_TOOLS_EXCLUDE: commaList(),
+	OPERATIONS_DIR: z
+		.string()
+		.optional()
+		.describe("Directory of .graphql files whose named operations become tools"),
+	QUERY_GRAPHQL_MODE: z
+		.enum(["open", "allowlist", "disabled"])
+		.default("open")
+		.describe("Whether query-graphql runs any operation, only persisted ones, or is turned off"),
+	FORWARD_HEADERS: z
+		.string()
+		.optional()
+		.describe("Comma-separated caller headers forwarded upstream, optionally renamed as 'from:to'"),
+	PROTECTED_HEADERS: z
+		.string()
+		.optional()
+		.describe("Comma-separated upstream headers callers can never set or override"),
+	RESPONSE_MAX_TOKENS: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(0)
+		.describe("Default output budget for query results; 0 means unlimited"),
+	RESPONSE_COMPACT: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false"),
+	RESULT_CURSOR_TTL: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(600)
+		.describe("Seconds a truncated result stays readable through read-result"),
+	RESULT_CURSOR_MAX: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(100)
+		.describe("Truncated results kept in memory; the oldest is dropped first"),
+	RESULT_CACHE: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false")
+		.describe("Cache the results of query operations"),
+	RESULT_CACHE_TTL: z.coerce.number().int().nonnegative().default(60).describe("Seconds a cached result stays fresh"),
+	RESULT_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(500),
+	RESULT_CACHE_TTL_OVERRIDES: jsonString("RESULT_CACHE_TTL_OVERRIDES")
+		.pipe(z.record(z.number().int().nonnegative()))
+		.default("{}")
+		.describe("TTL in seconds per operation name; 0 disables caching for that operation"),
+	RESULT_CACHE_INVALIDATE_ON_MUTATION: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("true"),
+	RATE_LIMITS: jsonString("RATE_LIMITS")
+		.pipe(RateLimitConfigSchema)
+		.default("{}")
+		.describe("Token-bucket limits for transport requests and per tool ('*' for tools without their own)"),
+	MAX_CONCURRENT_UPSTREAM: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(0)
+		.describe("Upstream requests allowed at once; 0 means unlimited"),
+	UPSTREAM_QUEUE_TIMEOUT: z.coerce.number().nonnegative().default(30).describe("Seconds to wait for a free upstream slot"),
+	UPSTREAM_TIMEOUT: z.coerce
+		.number()
+		.nonnegative()
+		.default(30)
+		.describe("Seconds before an upstream request is aborted; 0 waits indefinitely"),
+	UPSTREAM_RETRIES: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(2)
+		.describe("Retries of failed introspection and query requests"),
+	UPSTREAM_RETRY_DELAY: z.coerce.number().positive().default(0.25).describe("Seconds before the first retry, doubling each time"),
+	UPSTREAM_RETRY_MAX_DELAY: z.coerce.number().positive().default(5),
+	RETRY_MUTATIONS: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false")
+		.describe("Also retry mutations, which may then run more than once"),
+	CIRCUIT_BREAKER_THRESHOLD: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(5)
+		.describe("Consecutive upstream failures that open the circuit; 0 disables the breaker"),
+	CIRCUIT_BREAKER_RESET: z.coerce.number().positive().default(30).describe("Seconds the circuit stays open"),
+	AUDIT_LOG: z.string().optional().describe("JSONL file receiving one record per GraphQL tool call"),
+	AUDIT_LOG_MAX_BYTES: z.coerce
+		.number()
+		.int()
+		.nonnegative()
+		.default(10 * 1024 * 1024)
+		.describe("Rotate the audit log before it exceeds this size; 0 never rotates"),
+	AUDIT_LOG_MAX_FILES: z.coerce.number().int().min(1).default(5),
+	AUDIT_REDACT: z
+		.string()
+		.default("*password*,*secret*,*token*,authorization,*apikey*,*api_key*")
+		.transform((val) => val.split(",").map((s) => s.trim()).filter(Boolean))
+		.describe("Variable names (with * wildcards) whose values are redacted in the audit log"),
+	SUBSCRIPTIONS: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("false")
+		.describe("Run subscription operations over graphql-transport-ws"),
+	SUBSCRIPTION_ENDPOINT: z
+		.string()
+		.url()
+		.optional()
+		.describe("WebSocket URL for subscriptions; defaults to ENDPOINT with ws:// or wss://"),
+	SUBSCRIPTION_MAX_EVENTS: z.coerce.number().int().positive().default(10),
+	SUBSCRIPTION_TIMEOUT: z.coerce
+		.number()
+		.positive()
+		.default(30)
+		.describe("Seconds to collect events before returning"),
+	SUBSCRIPTION_CONNECT_TIMEOUT: z.coerce.number().positive().default(10),
+	METRICS: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.default("true")
+		.describe("Serve Prometheus metrics at /metrics"),
+	API_KEYS_FILE: z
+		.string()
+		.optional()
+		.describe("JSON file of named API keys with expiry and scopes; re-read when it changes"),
+	API_KEYS: z
+		.string()
+		.optional()
+		.describe("JSON array of named API keys, identified by the SHA-256 hash of the key"),
+	MCP_API_KEY: z.string().optional().describe("Optional API key required in X-API-Key header for server access"),
+});
+
+export type Env = z.infer<typeof EnvSchema>;
+
+// `--stdio` or `--transport <http|stdio>` on the command line take precedence over TRANSPORT
+function transportArgument(args: string[]): string | undefined {
+	if (args.includes("--stdio")) return "stdio";
+	const index = args.findIndex((arg) => arg === "--transport" || arg.startsWith("--transport="));
+	if (index === -1) return undefined;
+	return args[index].includes("=") ? args[index].split("=")[1] : args[index + 1];
+}
+
+export let env: Env;
+try {
+  env = EnvSchema.parse({ ...process.env, TRANSPORT: transportArgument(process.argv.slice(2)) ?? process.env.TRANSPORT });
+} catch (error) {
+  console.error("Error parsing environment variables:", error);
+  process.exit(1);
+}
+
+// stdout carries the protocol in stdio mode, so every log line must go to stderr
+if (env.TRANSPORT === "stdio") {
+  console.log = console.info = console.debug = console.error;
+}
+
+/* ---------------------------------------------------------------------------
+ * Upstream Configuration
+ *
+ * Without UPSTREAMS_CONFIG there is a single upstream named "default" built
+ * from ENDPOINT, HEADERS, SCHEMA, ALLOW_MUTATIONS and QDRANT_COLLECTION.
+ * ------------------------------------------------------------------------- */
+
+const UpstreamSchema = z.object({
+	name: z
+		.string()
+		.regex(/^[A-Za-z0-9_-]+$/, "Upstream names may only contain letters, digits, '_' and '-'"),
+	description: z.string().optional(),
+	endpoint: z.string().url(),
+	subscriptionEndpoint: z.string().url().optional(),
+	headers: z.record(z.string()).default({}),
+	schema: z.string().optional(),
+	endpointSchema: z.enum(["introspection", "federation"]).optional(),
+	visibility: VisibilityRulesSchema.optional(),
+	allowMutations: z.boolean().optional(),
+	collection: z.string().optional(),
+	operations: z.string().optional(),
+	forwardHeaders: z.array(z.string()).optional(),
+	protectedHeaders: z.array(z.string()).optional(),
+});
+
+const UpstreamsFileSchema = z.object({
+	upstreams: z.array(UpstreamSchema).min(1),
+});
+
+export interface UpstreamConfig {
+	name: string;
+	description?: string;
+	endpoint: string;
+	/** WebSocket URL subscriptions are sent to */
+	subscriptionEndpoint: string;
+	headers: Record<string, string>;
+	/** Schema file, directory, glob or URL; the schema is read from the endpoint when unset */
+	schema?: string;
+	/** How the schema is read from the endpoint */
+	endpointSchema: EndpointSchemaSource;
+	/** Which parts of the schema agents may see and query */
+	visibility: VisibilityRules;
+	allowMutations: boolean;
+	/** Vector store collection (alias) holding this upstream's schema index */
+	collection: string;
+	/** Directory of persisted operations exposed as tools */
+	operationsDir?: string;
+	/** Which caller headers are forwarded to this upstream */
+	headerPolicy: HeaderPolicy;
+}
+
+// Replace ${VAR} in header values so secrets can stay in the environment
+function interpolateEnv(value: string): string {
+	return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => process.env[name] ?? "");
+}
+
+// http://host/graphql -> ws://host/graphql, https -> wss
+function webSocketUrl(endpoint: string): string {
+	return endpoint.replace(/^http/i, "ws");
+}
+
+function headerPolicy(forward?: string[], protectedHeaders?: string[]): HeaderPolicy {
+	return {
+		forward: parseForwardRules(forward ?? env.FORWARD_HEADERS),
+		protected: parseHeaderNames(protectedHeaders ?? env.PROTECTED_HEADERS),
+	};
+}
+
+function loadUpstreamConfigs(): UpstreamConfig[] {
+	if (!env.UPSTREAMS_CONFIG) {
+		return [{
+			name: "default",
+			endpoint: env.ENDPOINT,
+			subscriptionEndpoint: env.SUBSCRIPTION_ENDPOINT ?? webSocketUrl(env.ENDPOINT),
+			headers: env.HEADERS,
+			schema: env.SCHEMA,
+			endpointSchema: env.ENDPOINT_SCHEMA,
+			visibility: env.SCHEMA_VISIBILITY,
+			allowMutations: env.ALLOW_MUTATIONS,
+			collection: env.QDRANT_COLLECTION,
+			operationsDir: env.OPERATIONS_DIR && path.resolve(env.OPERATIONS_DIR),
+			headerPolicy: headerPolicy(),
+		}];
+	}
+
+	const configPath = path.resolve(env.UPSTREAMS_CONFIG);
+	const parsed = UpstreamsFileSchema.parse(JSON.parse(readFileSync(configPath, "utf8")));
+	const names = new Set<string>();
+	return parsed.upstreams.map((upstream) => {
+		if (names.has(upstream.name)) {
+			throw new Error(`Duplicate upstream name '${upstream.name}' in ${configPath}`);
+		}
+		names.add(upstream.name);
+		return {
+			name: upstream.name,
+			description: upstream.description,
+			endpoint: upstream.endpoint,
+			subscriptionEndpoint: upstream.subscriptionEndpoint ?? webSocketUrl(upstream.endpoint),
+			headers: Object.fromEntries(
+				Object.entries(upstream.headers).map(([key, value]) => [key, interpolateEnv(value)]),
+			),
+			// Schema files and operation directories are relative to the config file
+			schema: upstream.schema && (isSchemaUrl(upstream.schema) ? upstream.schema : path.resolve(path.dirname(configPath), upstream.schema)),
+			endpointSchema: upstream.endpointSchema ?? env.ENDPOINT_SCHEMA,
+			visibility: upstream.visibility ?? env.SCHEMA_VISIBILITY,
+			operationsDir: upstream.operations && path.resolve(path.dirname(configPath), upstream.operations),
+			allowMutations: upstream.allowMutations ?? env.ALLOW_MUTATIONS,
+			collection: upstream.collection ?? `${env.QDRANT_COLLECTION}-${upstream.name}`,
+			headerPolicy: headerPolicy(upstream.forwardHeaders, upstream.protectedHeaders),
+		};
+	});
+}
+
+// A directive rule that introspection cannot see must not pass for a working security control
+function checkVisibilitySource(config: UpstreamConfig): void {
+	const lost = directivesLostInIntrospection(config.visibility);
+	if (!config.schema && config.endpointSchema === "introspection" && lost.length > 0) {
+		throw lostDirectivesError(lost, `'${config.name}' (${config.endpoint})`);
+	}
+}
+
+export let upstreamConfigs: UpstreamConfig[];
+try {
+  upstreamConfigs = loadUpstreamConfigs();
+  upstreamConfigs.forEach(checkVisibilitySource);
+} catch (error) {
+  console.error("Error loading upstream configuration:", error);
+  process.exit(1);
+}
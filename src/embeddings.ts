@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import { OpenAI } from "openai";
+import { tokenize } from "./lexical.js";
+
+/* ---------------------------------------------------------------------------
+ * Embedding providers
+ *
+ * `openai`            – api.openai.com (needs OPENAI_API_KEY)
+ * `openai-compatible` – any server speaking the OpenAI embeddings API
+ *                       (vLLM, Ollama, LM Studio, ...) at EMBED_BASE_URL
+ * `local`             – deterministic hashed n-gram vectors, no network
+ * ------------------------------------------------------------------------- */
+
+export interface EmbeddingProvider {
+  /** Identifier used in logs, e.g. `openai:text-embedding-3-small` */
+  readonly name: string;
+  /** Embed a batch of texts, returning one vector per input in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderKind = "openai" | "openai-compatible" | "local";
+
+export interface EmbeddingOptions {
+  provider: EmbeddingProviderKind;
+  /** Model of the `openai` and `openai-compatible` providers */
+  model: string;
+  /** Server of the `openai-compatible` provider */
+  baseURL?: string;
+  apiKey?: string;
+  /** Vector size of the `local` provider */
+  dimensions: number;
+}
+
+/**
+ * Embeddings through the OpenAI client. Passing a `baseURL` points the
+ * client at an OpenAI-compatible server instead of api.openai.com.
+ */
+export function createOpenAIEmbeddings(options: {
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}): EmbeddingProvider {
+  const client = new OpenAI({
+    baseURL: options.baseURL,
+    // Local OpenAI-compatible servers usually ignore the key, but the client insists on one
+    apiKey: options.apiKey ?? process.env.OPENAI_API_KEY ?? (options.baseURL ? "not-needed" : undefined),
+  });
+  return {
+    name: `${options.baseURL ?? "openai"}:${options.model}`,
+    async embed(texts) {
+      const r = await client.embeddings.create({ model: options.model, input: texts });
+      // The API may return items out of order; sort by index to be safe
+      return [...r.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
+
+/* ---------- local hashed n-gram embedder --------------------------------- */
+
+function hashFeature(feature: string): number {
+  return createHash("md5").update(feature).digest().readUInt32LE(0);
+}
+
+/**
+ * Feature-hashed bag of words and character trigrams with sublinear term
+ * frequency weighting, L2-normalised so cosine similarity behaves.
+ */
+export function createLocalEmbeddings(options: { dimensions: number }): EmbeddingProvider {
+  const dims = options.dimensions;
+
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`);
+    }
+
+    const vec = new Array<number>(dims).fill(0);
+    for (const [feature, count] of counts) {
+      const h = hashFeature(feature);
+      // The top bit picks the sign, which keeps hash collisions from only ever adding up
+      const sign = h & 0x80000000 ? -1 : 1;
+      vec[h % dims] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vec.map((v) => v / norm) : vec;
+  };
+
+  return {
+    name: `local:hashed-ngrams-${dims}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * Build the embedding provider selected by EMBED_PROVIDER.
+ */
+export function createEmbeddingProvider(options: EmbeddingOptions): EmbeddingProvider {
+  const { model } = options;
+
+  switch (options.provider) {
+    case "openai":
+      return createOpenAIEmbeddings({ model });
+    case "openai-compatible":
+      if (!options.baseURL) {
+        throw new Error("EMBED_BASE_URL is required when EMBED_PROVIDER=openai-compatible");
+      }
+      return createOpenAIEmbeddings({ model, baseURL: options.baseURL, apiKey: options.apiKey });
+    case "local":
+      return createLocalEmbeddings({ dimensions: options.dimensions });
+  }
+}
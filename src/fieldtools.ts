@@ -0,0 +1,246 @@
+import {
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isLeafType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isRequiredArgument,
+  isUnionType,
+  type GraphQLField,
+  type GraphQLInputType,
+  type GraphQLNamedType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+} from "graphql";
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import { globToRegExp } from "./patterns.js";
+
+/* ---------------------------------------------------------------------------
+ * Generated field tools
+ *
+ * One MCP tool per root query/mutation field. The tool's input schema is
+ * derived from the field's arguments, and the operation it sends selects
+ * the field's result down to a configurable depth.
+ * ------------------------------------------------------------------------- */
+
+export type FieldOperation = "query" | "mutation";
+
+export interface FieldToolSpec {
+  /** MCP tool name, e.g. `query-user` or `billing-mutation-createInvoice` */
+  name: string;
+  operation: FieldOperation;
+  rootType: GraphQLObjectType;
+  field: GraphQLField<unknown, unknown>;
+}
+
+export interface FieldToolOptions {
+  include?: string[];
+  exclude?: string[];
+  /** Prefixed to tool names so several upstreams can expose the same field */
+  prefix?: string;
+  allowMutations: boolean;
+}
+
+// Input keys for the selection overrides; underscore-prefixed to stay clear of argument names
+export const SELECTION_KEY = "_selection";
+export const DEPTH_KEY = "_depth";
+
+// MCP tool names are limited to 64 characters of [A-Za-z0-9_-]
+const MAX_TOOL_NAME = 64;
+
+/** Whether `Type.field` passes include/exclude glob patterns like `Query.*` */
+export function matchesFieldPatterns(coordinate: string, include?: string[], exclude?: string[]): boolean {
+  if (include?.length && !include.some((p) => globToRegExp(p).test(coordinate))) return false;
+  return !exclude?.some((p) => globToRegExp(p).test(coordinate));
+}
+
+/** Root query and mutation fields that should get a tool */
+export function fieldToolSpecs(schema: GraphQLSchema, options: FieldToolOptions): FieldToolSpec[] {
+  const roots: [FieldOperation, GraphQLObjectType | null | undefined][] = [
+    ["query", schema.getQueryType()],
+    ["mutation", options.allowMutations ? schema.getMutationType() : null],
+  ];
+  const specs: FieldToolSpec[] = [];
+  for (const [operation, rootType] of roots) {
+    if (!rootType) continue;
+    for (const field of Object.values(rootType.getFields())) {
+      if (!matchesFieldPatterns(`${rootType.name}.${field.name}`, options.include, options.exclude)) continue;
+      const name = [options.prefix, operation, field.name].filter(Boolean).join("-");
+      if (name.length > MAX_TOOL_NAME) {
+        console.warn(`[Server] Skipping field tool for ${rootType.name}.${field.name}: name '${name}' is too long`);
+        continue;
+      }
+      specs.push({ name, operation, rootType, field });
+    }
+  }
+  return specs;
+}
+
+/* ---------- input schemas ----------------------------------------------- */
+
+function scalarSchema(name: string): ZodTypeAny {
+  switch (name) {
+    case "Int":
+      return z.number().int();
+    case "Float":
+      return z.number();
+    case "String":
+      return z.string();
+    case "Boolean":
+      return z.boolean();
+    case "ID":
+      return z.union([z.string(), z.number()]);
+    default:
+      return z.any().describe(`Custom scalar ${name}`);
+  }
+}
+
+/**
+ * Zod schema for a GraphQL input type. Input objects are cached by name and
+ * wrapped in z.lazy so recursive input types terminate.
+ */
+function inputSchema(type: GraphQLInputType, cache: Map<string, ZodTypeAny>): ZodTypeAny {
+  if (isNonNullType(type)) return inputSchema(type.ofType, cache);
+  if (isListType(type)) return z.array(nullable(type.ofType, cache));
+
+  if (isEnumType(type)) {
+    const values = type.getValues().map((v) => v.name);
+    return z.enum(values as [string, ...string[]]);
+  }
+  if (isInputObjectType(type)) {
+    const cached = cache.get(type.name);
+    if (cached) return cached;
+    const lazy = z.lazy(() =>
+      z.object(Object.fromEntries(
+        Object.values(type.getFields()).map((f) => {
+          const schema = nullable(f.type, cache);
+          return [f.name, f.description ? schema.describe(f.description) : schema];
+        }),
+      )),
+    );
+    cache.set(type.name, lazy);
+    return lazy;
+  }
+  return scalarSchema(type.name);
+}
+
+// Nullable GraphQL types may be omitted or sent as null
+function nullable(type: GraphQLInputType, cache: Map<string, ZodTypeAny>): ZodTypeAny {
+  const schema = inputSchema(type, cache);
+  return isNonNullType(type) ? schema : schema.nullable().optional();
+}
+
+/** A field argument or operation variable that becomes a tool input */
+export interface InputArgument {
+  name: string;
+  type: GraphQLInputType;
+  description?: string | null;
+  /** Set when the argument or variable declares a default */
+  defaultValue?: unknown;
+}
+
+/** One zod schema per argument, described with its GraphQL type and default */
+export function inputArgumentsShape(args: readonly InputArgument[]): ZodRawShape {
+  const cache = new Map<string, ZodTypeAny>();
+  const shape: ZodRawShape = {};
+  for (const arg of args) {
+    const hasDefault = arg.defaultValue !== undefined;
+    // Non-null arguments with a default may be omitted but not sent as null
+    let schema = isNonNullType(arg.type) && !hasDefault
+      ? inputSchema(arg.type, cache)
+      : isNonNullType(arg.type) ? inputSchema(arg.type, cache).optional() : nullable(arg.type, cache);
+    const notes = [
+      arg.description,
+      `GraphQL type ${String(arg.type)}`,
+      hasDefault ? `default ${JSON.stringify(arg.defaultValue)}` : undefined,
+    ].filter(Boolean);
+    schema = schema.describe(notes.join(". "));
+    shape[arg.name] = schema;
+  }
+  return shape;
+}
+
+/** Tool input shape: one key per field argument plus the selection overrides */
+export function fieldInputShape(field: GraphQLField<unknown, unknown>, defaultDepth: number): ZodRawShape {
+  const shape = inputArgumentsShape(field.args);
+  if (!isLeafType(getNamedType(field.type))) {
+    shape[SELECTION_KEY] = z
+      .string()
+      .optional()
+      .describe("GraphQL selection set to return instead of the default, e.g. '{ id name }'");
+    shape[DEPTH_KEY] = z
+      .number()
+      .int()
+      .min(1)
+      .max(5)
+      .optional()
+      .describe(`Depth of nested fields in the default selection (default: ${defaultDepth})`);
+  }
+  return shape;
+}
+
+/* ---------- operations -------------------------------------------------- */
+
+/**
+ * Default selection set for a type: its argument-free leaf fields, plus
+ * argument-free object fields while depth remains. Unions select
+ * `__typename` and each member through an inline fragment.
+ */
+export function defaultSelection(type: GraphQLNamedType, depth: number, indent = ""): string {
+  if (isLeafType(type)) return "";
+  const inner = `${indent}  `;
+  const lines: string[] = [];
+
+  if (isUnionType(type)) {
+    // Fragments do not add a level to the response, so they keep the depth
+    lines.push(`${inner}__typename`);
+    for (const member of type.getTypes()) {
+      lines.push(`${inner}... on ${member.name} ${defaultSelection(member, depth, inner)}`);
+    }
+  } else if (isObjectType(type) || isInterfaceType(type)) {
+    for (const field of Object.values(type.getFields())) {
+      if (field.args.some(isRequiredArgument) || field.deprecationReason) continue;
+      const fieldType = getNamedType(field.type);
+      if (isLeafType(fieldType)) {
+        lines.push(`${inner}${field.name}`);
+      } else if (depth > 1) {
+        lines.push(`${inner}${field.name} ${defaultSelection(fieldType, depth - 1, inner)}`);
+      }
+    }
+  }
+  if (lines.length === 0) lines.push(`${inner}__typename`);
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+/** Operation document for a field tool call, with every argument as a variable */
+export function buildFieldOperation(spec: FieldToolSpec, args: Record<string, unknown>, depth: number): string {
+  const { field, operation } = spec;
+  const provided = field.args.filter((arg) => args[arg.name] !== undefined);
+  const declarations = provided.map((arg) => `$${arg.name}: ${String(arg.type)}`);
+  const callArgs = provided.map((arg) => `${arg.name}: $${arg.name}`);
+
+  let selection = "";
+  if (!isLeafType(getNamedType(field.type))) {
+    const override = args[SELECTION_KEY];
+    if (typeof override === "string" && override.trim()) {
+      const trimmed = override.trim();
+      selection = trimmed.startsWith("{") ? trimmed : `{ ${trimmed} }`;
+    } else {
+      selection = defaultSelection(getNamedType(field.type), depth, "  ");
+    }
+  }
+
+  const header = declarations.length > 0 ? `${operation}(${declarations.join(", ")})` : operation;
+  const call = callArgs.length > 0 ? `${field.name}(${callArgs.join(", ")})` : field.name;
+  return `${header} {\n  ${call}${selection ? ` ${selection}` : ""}\n}`;
+}
+
+/** The argument values of a tool call, without the selection overrides */
+export function fieldVariables(spec: FieldToolSpec, args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    spec.field.args.filter((arg) => args[arg.name] !== undefined).map((arg) => [arg.name, args[arg.name]]),
+  );
+}
@@ -0,0 +1,83 @@
+import type { IncomingHttpHeaders } from "node:http";
+
+/* ---------------------------------------------------------------------------
+ * Caller header passthrough
+ *
+ * Selected headers from the caller's /mcp or /sse requests are captured per
+ * session and forwarded to the upstream GraphQL API on that session's
+ * queries, so upstream authorization applies per user. Static headers from
+ * the configuration remain the defaults.
+ * ------------------------------------------------------------------------- */
+
+export interface ForwardRule {
+  /** Incoming header name, lower-case */
+  from: string;
+  /** Header name sent upstream, lower-case */
+  to: string;
+}
+
+export interface HeaderPolicy {
+  forward: ForwardRule[];
+  /** Upstream headers a caller can never set or override, lower-case */
+  protected: Set<string>;
+}
+
+// Connection-level headers that must never be copied between requests
+const HOP_BY_HOP = new Set([
+  "connection", "content-length", "content-type", "host", "keep-alive", "proxy-authorization",
+  "te", "trailer", "transfer-encoding", "upgrade", "mcp-session-id", "x-api-key",
+]);
+
+/**
+ * Parse a comma-separated rule list like `authorization, x-user-token:x-token`,
+ * where `from:to` renames the header on the way upstream.
+ */
+export function parseForwardRules(value: string | string[] | undefined): ForwardRule[] {
+  const entries = Array.isArray(value) ? value : (value ?? "").split(",");
+  return entries
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      const [from, to] = entry.split(":").map((part) => part.trim());
+      return { from, to: to || from };
+    })
+    .filter((rule) => !HOP_BY_HOP.has(rule.from) && !HOP_BY_HOP.has(rule.to));
+}
+
+export function parseHeaderNames(value: string | string[] | undefined): Set<string> {
+  const entries = Array.isArray(value) ? value : (value ?? "").split(",");
+  return new Set(entries.map((entry) => entry.trim().toLowerCase()).filter(Boolean));
+}
+
+/**
+ * Pick the headers named by any of the policies out of an incoming request.
+ */
+export function captureHeaders(incoming: IncomingHttpHeaders, policies: HeaderPolicy[]): Record<string, string> {
+  const captured: Record<string, string> = {};
+  for (const policy of policies) {
+    for (const { from } of policy.forward) {
+      const value = incoming[from];
+      if (typeof value === "string") captured[from] = value;
+      else if (Array.isArray(value)) captured[from] = value.join(", ");
+    }
+  }
+  return captured;
+}
+
+/**
+ * Headers for an upstream request: static defaults, overridden by the
+ * caller's captured headers unless the target header is protected.
+ */
+export function buildUpstreamHeaders(
+  staticHeaders: Record<string, string>,
+  captured: Record<string, string>,
+  policy: HeaderPolicy,
+): Headers {
+  const headers = new Headers({ "Content-Type": "application/json", ...staticHeaders });
+  for (const { from, to } of policy.forward) {
+    if (policy.protected.has(to)) continue;
+    const value = captured[from];
+    if (value !== undefined) headers.set(to, value);
+  }
+  return headers;
+}
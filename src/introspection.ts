@@ -1,43 +1,323 @@
-import { buildClientSchema, getIntrospectionQuery, printSchema } from "graphql";
-import { readFile } from "node:fs/promises";
+import {
+	buildASTSchema,
+	buildClientSchema,
+	DefinitionNode,
+	DocumentNode,
+	getIntrospectionQuery,
+	GraphQLError,
+	GraphQLSchema,
+	IntrospectionQuery,
+	Kind,
+	parse,
+	print,
+	printSchema,
+	Source,
+	validateSchema,
+} from "graphql";
+import { statSync } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+/* ---------------------------------------------------------------------------
+ * Schema sources
+ *
+ * The schema can come from live introspection, an Apollo Federation
+ * subgraph's `_service { sdl }`, an SDL or introspection JSON URL, or local
+ * files: one SDL file, saved introspection JSON, or a directory or glob of
+ * `.graphql` files merged together. Every source ends up as one SDL
+ * document in which `extend type` blocks are folded into their types, and
+ * is checked to build a usable schema before anything is indexed.
+ * ------------------------------------------------------------------------- */
+
+const SDL_EXTENSIONS = new Set([".graphql", ".graphqls", ".gql"]);
+
+/** True for http(s) URLs, which are fetched instead of read from disk */
+export function isSchemaUrl(schema: string): boolean {
+	return /^https?:\/\//i.test(schema);
+}
+
+function isGlob(pattern: string): boolean {
+	return /[*?]/.test(pattern);
+}
+
+/** True when the schema source is a single local file, the only kind SCHEMA_WATCH can watch */
+export function isSchemaFile(schema: string): boolean {
+	if (isSchemaUrl(schema) || isGlob(schema)) return false;
+	return statSync(schema, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+export type EndpointSchemaSource = "introspection" | "federation";
+
+export interface GraphQLResponse {
+	data?: any;
+	errors?: { message: string }[];
+}
+
+export interface LoadedSchema {
+	sdl: string;
+	/** Read from an introspection result, which has no applied directives other than `@deprecated` */
+	fromIntrospection: boolean;
+}
+
+export interface SchemaQueryResult {
+	status: number;
+	statusText: string;
+	/** The GraphQL response, absent when the HTTP status is not 2xx */
+	body?: GraphQLResponse;
+}
+
+const SCHEMA_QUERIES: Record<EndpointSchemaSource, string> = {
+	introspection: getIntrospectionQuery(),
+	// Apollo Federation subgraphs publish their SDL even when introspection is disabled
+	federation: "query SubgraphSDL { _service { sdl } }",
+};
+
 /**
- * Introspect a GraphQL endpoint and return the schema as the GraphQL SDL
- * @param endpoint - The endpoint to introspect
- * @returns The schema
+ * Send the query that reads the schema of a GraphQL endpoint. HTTP errors
+ * are returned with their status rather than thrown, so the caller decides
+ * which ones to retry (a rejected credential is not worth retrying);
+ * `schemaFromResponse` turns the result into SDL.
+ * @param endpoint - The endpoint to query
+ * @param source - Live introspection, or a federation subgraph's `_service { sdl }`
+ * @param signal - Aborts the request, e.g. on a timeout
+ * @returns The HTTP status and, when it is 2xx, the GraphQL response
  */
-export async function introspectEndpoint(
+export async function querySchema(
 	endpoint: string,
+	source: EndpointSchemaSource,
 	headers?: Record<string, string>,
-) {
+	signal?: AbortSignal,
+): Promise<SchemaQueryResult> {
 	const response = await fetch(endpoint, {
 		method: "POST",
+		signal,
 		headers: {
 			"Content-Type": "application/json",
 			...headers,
 		},
 		body: JSON.stringify({
-			query: getIntrospectionQuery(),
+			query: SCHEMA_QUERIES[source],
 		}),
 	});
 
+	const result = { status: response.status, statusText: response.statusText };
+	if (!response.ok) return result;
+	return { ...result, body: await response.json() };
+}
+
+/**
+ * Return the schema in a `querySchema` result as the GraphQL SDL
+ * @param result - The result of `querySchema`
+ * @param endpoint - The endpoint it came from, for the error message
+ * @param source - The query that was sent
+ * @returns The schema
+ */
+export function schemaFromResponse(result: SchemaQueryResult, endpoint: string, source: EndpointSchemaSource) {
+	const response = result.body;
+	if (!response) {
+		throw new Error(`GraphQL request failed: ${result.status} ${result.statusText}`);
+	}
+	const reason = (response.errors ?? []).map((error) => error.message).join("; ") || "no data returned";
+	if (source === "federation") {
+		const sdl = response.data?._service?.sdl;
+		if (typeof sdl !== "string") throw new Error(`Fetching the subgraph SDL of ${endpoint} failed (${reason})`);
+		return mergeSDL([new Source(sdl, endpoint)]);
+	}
+	if (!response.data?.__schema) {
+		throw new Error(
+			`Introspection of ${endpoint} failed (${reason}). ` +
+				"If introspection is disabled, set SCHEMA to a schema file or URL, or ENDPOINT_SCHEMA=federation for a subgraph.",
+		);
+	}
+	return sdlFromIntrospection(response.data, endpoint);
+}
+
+/**
+ * Download a schema published at a URL, as SDL or as introspection JSON
+ * @param url - The URL of the schema
+ * @param signal - Aborts the request, e.g. on a timeout
+ * @returns The schema
+ */
+export async function fetchSchemaUrl(url: string, signal?: AbortSignal): Promise<LoadedSchema> {
+	const response = await fetch(url, { signal });
 	if (!response.ok) {
-		throw new Error(`GraphQL request failed: ${response.statusText}`);
+		throw new Error(`Schema request failed: ${response.status} ${response.statusText}`);
+	}
+	return schemaFromText(await response.text(), url);
+}
+
+/**
+ * Load a local schema and return it as the GraphQL SDL: an SDL file, a
+ * saved introspection result (`.json`), or a directory or glob of SDL files
+ * that are merged in path order
+ * @param path - The path, directory or glob pattern
+ * @returns The schema
+ */
+export async function introspectLocalSchema(path: string): Promise<LoadedSchema> {
+	const files = await schemaFiles(path);
+	if (files.length === 1) {
+		return schemaFromText(await readFile(files[0], "utf8"), files[0]);
+	}
+	const sources = await Promise.all(files.map(async (file) => new Source(await readFile(file, "utf8"), file)));
+	return { sdl: mergeSDL(sources), fromIntrospection: false };
+}
+
+// JSON is an introspection result; anything else is SDL
+function schemaFromText(text: string, name: string): LoadedSchema {
+	if (!text.trimStart().startsWith("{")) return { sdl: mergeSDL([new Source(text, name)]), fromIntrospection: false };
+	let json: any;
+	try {
+		json = JSON.parse(text);
+	} catch (error: any) {
+		throw new Error(`${name} is neither SDL nor valid JSON: ${error.message}`);
+	}
+	return { sdl: sdlFromIntrospection(json.data ?? json, name), fromIntrospection: true };
+}
+
+function sdlFromIntrospection(introspection: IntrospectionQuery, name: string): string {
+	if (!introspection?.__schema) {
+		throw new Error(`${name} does not contain an introspection result (no '__schema' found)`);
+	}
+	try {
+		return printSchema(buildClientSchema(introspection));
+	} catch (error: any) {
+		throw new Error(`The introspection result from ${name} is invalid: ${error.message}`);
 	}
+}
 
-	const responseJson = await response.json();
-	// Transform to a schema object
-	const schema = buildClientSchema(responseJson.data);
+async function schemaFiles(pattern: string): Promise<string[]> {
+	if (!isGlob(pattern)) {
+		const info = await stat(pattern);
+		if (!info.isDirectory()) return [pattern];
+		const files = (await listFiles(pattern)).filter((file) => SDL_EXTENSIONS.has(path.extname(file)));
+		if (files.length === 0) throw new Error(`No .graphql files found in ${pattern}`);
+		return files;
+	}
+	// Walk the directory before the first wildcard and match the rest of the pattern
+	const segments = pattern.split(/[\\/]/);
+	const firstWildcard = segments.findIndex(isGlob);
+	const base = segments.slice(0, firstWildcard).join(path.sep) || ".";
+	const matcher = globToRegExp(segments.slice(firstWildcard).join("/"));
+	const files = (await listFiles(base)).filter((file) => matcher.test(path.relative(base, file).split(path.sep).join("/")));
+	if (files.length === 0) throw new Error(`No schema files match ${pattern}`);
+	return files;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+	const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+	return entries
+		.filter((entry) => entry.isFile())
+		.map((entry) => path.join(entry.parentPath ?? entry.path, entry.name))
+		.sort();
+}
 
-	// Print the schema SDL
-	return printSchema(schema);
+// `**` crosses directories, `*` and `?` do not
+function globToRegExp(pattern: string): RegExp {
+	const escaped = pattern
+		.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*\*\//g, "\0")
+		.replace(/\*\*/g, ".*")
+		.replace(/\*/g, "[^/]*")
+		.replace(/\?/g, "[^/]")
+		.replace(/\0/g, "(?:.*/)?");
+	return new RegExp(`^${escaped}$`);
 }
 
+const EXTENSION_KINDS: Partial<Record<Kind, Kind>> = {
+	[Kind.SCALAR_TYPE_EXTENSION]: Kind.SCALAR_TYPE_DEFINITION,
+	[Kind.OBJECT_TYPE_EXTENSION]: Kind.OBJECT_TYPE_DEFINITION,
+	[Kind.INTERFACE_TYPE_EXTENSION]: Kind.INTERFACE_TYPE_DEFINITION,
+	[Kind.UNION_TYPE_EXTENSION]: Kind.UNION_TYPE_DEFINITION,
+	[Kind.ENUM_TYPE_EXTENSION]: Kind.ENUM_TYPE_DEFINITION,
+	[Kind.INPUT_OBJECT_TYPE_EXTENSION]: Kind.INPUT_OBJECT_TYPE_DEFINITION,
+};
+
+const MERGED_LISTS = ["interfaces", "directives", "fields", "types", "values"] as const;
+
 /**
- * Introspect a local GraphQL schema file and return the schema as the GraphQL SDL
- * @param path - The path to the local schema file
+ * Combine SDL documents into one, folding every `extend type` into its type
+ * so each type is indexed as a whole. An extension of a type that is never
+ * defined (common in federation subgraphs) becomes the definition.
+ */
+export function mergeSDL(sources: Source[]): string {
+	const definitions: DefinitionNode[] = [];
+	const types = new Map<string, number>();
+	const extensions: DefinitionNode[] = [];
+
+	for (const source of sources) {
+		let document: DocumentNode;
+		try {
+			document = parse(source);
+		} catch (error) {
+			throw new Error(`Failed to parse the schema: ${describeError(error)}`);
+		}
+		for (const definition of document.definitions) {
+			if (definition.kind in EXTENSION_KINDS) {
+				extensions.push(definition);
+				continue;
+			}
+			if ("name" in definition && definition.name && definition.kind !== Kind.DIRECTIVE_DEFINITION) {
+				types.set(definition.name.value, definitions.length);
+			}
+			definitions.push(definition);
+		}
+	}
+
+	for (const extension of extensions) {
+		const name = (extension as { name: { value: string } }).name.value;
+		const index = types.get(name);
+		if (index === undefined) {
+			types.set(name, definitions.length);
+			definitions.push({ ...extension, kind: EXTENSION_KINDS[extension.kind] } as DefinitionNode);
+			continue;
+		}
+		const merged: Record<string, unknown> = { ...definitions[index] };
+		for (const list of MERGED_LISTS) {
+			const added = (extension as Record<string, any>)[list];
+			if (added?.length) merged[list] = [...((merged[list] as unknown[]) ?? []), ...added];
+		}
+		definitions[index] = merged as unknown as DefinitionNode;
+	}
+
+	return print({ kind: Kind.DOCUMENT, definitions });
+}
+
+function describeError(error: unknown): string {
+	if (error instanceof GraphQLError) {
+		const location = error.locations?.[0];
+		return location ? `${error.message} (${error.source?.name ?? "schema"}:${location.line}:${location.column})` : error.message;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check that the SDL builds a schema that can be queried, so a broken
+ * source fails loudly instead of being indexed
+ * @param schemaSDL - The schema SDL, as returned by the functions above
+ * @param source - Where it came from, for the error message
+ * @returns The SDL
+ */
+export function usableSchemaSDL(schemaSDL: string, source: string): string {
+	let problems: string[];
+	try {
+		problems = validateSchema(buildSchemaFromSDL(schemaSDL)).map((error) => error.message);
+	} catch (error) {
+		problems = [describeError(error)];
+	}
+	if (problems.length > 0) {
+		const shown = problems.slice(0, 5).join("; ");
+		const more = problems.length > 5 ? ` (and ${problems.length - 5} more)` : "";
+		throw new Error(`The schema from ${source} is not usable: ${shown}${more}`);
+	}
+	return schemaSDL;
+}
+
+/**
+ * Build a GraphQLSchema from SDL so operations can be validated locally
+ * @param schemaSDL - The schema SDL, as returned by the introspect functions
  * @returns The schema
  */
-export async function introspectLocalSchema(path: string) {
-	const schema = await readFile(path, "utf8");
-	return schema;
-}
\ No newline at end of file
+export function buildSchemaFromSDL(schemaSDL: string): GraphQLSchema {
+	// Hand-written SDL often uses directives it never declares; don't reject it for that
+	return buildASTSchema(parse(schemaSDL), { assumeValidSDL: true });
+}
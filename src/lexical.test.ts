@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { SchemaDocument } from "./chunking.js";
+import { buildLexicalIndex } from "./lexical.js";
+
+function field(typeName: string, fieldName: string, text: string): SchemaDocument {
+  return { kind: "field", typeName, fieldName, text, isRootField: false, deprecated: false };
+}
+
+function type(typeName: string, text: string): SchemaDocument {
+  return { kind: "object", typeName, text, isRootField: false, deprecated: false };
+}
+
+// A schema split per field, where `id` and `email` exist on several types
+const docs: SchemaDocument[] = [
+  type("User", "type User { id: ID! email: String! name: String }"),
+  field("User", "email", "User.email: String! The address the user signs in with"),
+  field("User", "id", "User.id: ID!"),
+  field("Invoice", "id", "Invoice.id: ID!"),
+  field("Invoice", "email", "Invoice.email: String Where the invoice is sent"),
+  field("Customer", "email", "Customer.email: String"),
+  field("Mutation", "createInvoice", "Mutation.createInvoice(input: CreateInvoiceInput!): Invoice"),
+  type("OrganizationMembershipConnection", "type OrganizationMembershipConnection { edges: [OrganizationMembershipEdge!]! }"),
+];
+
+const index = buildLexicalIndex(docs);
+const names = (query: string) =>
+  index.search(query, 10).map((hit) => `${hit.doc.typeName}.${hit.doc.fieldName ?? ""}${hit.exact ? " (exact)" : ""}`);
+
+test("plain-English questions pin nothing", () => {
+  const hits = names("what is the user's email and id");
+  assert.ok(hits.every((name) => !name.endsWith("(exact)")));
+  // Still found, but ranked by BM25 alongside everything else
+  assert.ok(hits.includes("User.email") && hits.includes("User.id"));
+});
+
+test("identifiers that cannot be ordinary words are pinned first", () => {
+  assert.equal(names("how do I call createInvoice")[0], "Mutation.createInvoice (exact)");
+  assert.equal(names("paginate OrganizationMembershipConnection")[0], "OrganizationMembershipConnection. (exact)");
+});
+
+test("a coordinate pins that field and its type, not same-named fields elsewhere", () => {
+  const exact = names("what does Invoice.email hold").filter((name) => name.endsWith("(exact)"));
+  assert.deepEqual(exact, ["Invoice.email (exact)"]);
+  const userExact = names("User.email").filter((name) => name.endsWith("(exact)"));
+  assert.deepEqual(userExact.sort(), ["User. (exact)", "User.email (exact)"]);
+});
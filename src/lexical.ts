@@ -0,0 +1,128 @@
+import type { SchemaDocument } from "./chunking.js";
+
+/* ---------------------------------------------------------------------------
+ * Lexical (BM25) search over schema documents
+ *
+ * Embeddings are weak at exact identifiers like `createInvoice`, so the
+ * hybrid search in rag.ts fuses these keyword hits with the vector hits.
+ * ------------------------------------------------------------------------- */
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Type and field names count this many times more than tokens in the SDL body
+const NAME_BOOST = 3;
+
+export interface LexicalHit {
+  doc: SchemaDocument;
+  score: number;
+  /** The query names this document's type or field by an identifier that cannot be an ordinary word */
+  exact: boolean;
+}
+
+export interface LexicalIndex {
+  readonly size: number;
+  search(query: string, limit: number, filter?: (doc: SchemaDocument) => boolean): LexicalHit[];
+}
+
+/**
+ * Lower-cased word tokens, splitting identifiers like
+ * `OrganizationMembershipConnection` or `created_at` into their words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 0);
+}
+
+// Whole identifiers as written, e.g. `Query.user` yields `Query` and `user`
+function identifiers(text: string): string[] {
+  return text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? [];
+}
+
+function documentTerms(doc: SchemaDocument): string[] {
+  const names = [doc.typeName, doc.fieldName].filter((n): n is string => !!n);
+  const nameTerms = names.flatMap((n) => [n.toLowerCase(), ...tokenize(n)]);
+  const terms: string[] = [];
+  for (let i = 0; i < NAME_BOOST; i++) terms.push(...nameTerms);
+  terms.push(...tokenize(doc.text), ...identifiers(doc.text).map((id) => id.toLowerCase()));
+  return terms;
+}
+
+// Names in a question that only make sense as schema identifiers
+interface ExactNames {
+  /** Identifiers like `createInvoice` or `created_at` */
+  names: Set<string>;
+  /** Coordinates like `Query.user` */
+  coordinates: Set<string>;
+}
+
+// Plain words such as `id`, `email` or `Query` are left to BM25 ranking; only
+// inner capitals or underscores mark an identifier nobody writes in prose
+function isDistinctive(name: string): boolean {
+  return /[a-z0-9][A-Z]|[A-Za-z0-9]_[A-Za-z0-9]/.test(name);
+}
+
+function exactNames(query: string): ExactNames {
+  return {
+    names: new Set(identifiers(query).filter(isDistinctive)),
+    coordinates: new Set(query.match(/[A-Za-z_][A-Za-z0-9_]*\.[A-Za-z_][A-Za-z0-9_]*/g) ?? []),
+  };
+}
+
+// Case-sensitive; a coordinate also pins its type's own document
+function isExactMatch(doc: SchemaDocument, exact: ExactNames): boolean {
+  if (exact.names.has(doc.fieldName ?? doc.typeName)) return true;
+  if (doc.fieldName) return exact.coordinates.has(`${doc.typeName}.${doc.fieldName}`);
+  return [...exact.coordinates].some((coordinate) => coordinate.startsWith(`${doc.typeName}.`));
+}
+
+export function buildLexicalIndex(docs: SchemaDocument[]): LexicalIndex {
+  const termFreqs = docs.map((doc) => {
+    const tf = new Map<string, number>();
+    for (const term of documentTerms(doc)) tf.set(term, (tf.get(term) ?? 0) + 1);
+    return tf;
+  });
+  const lengths = termFreqs.map((tf) => [...tf.values()].reduce((a, b) => a + b, 0));
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / Math.max(docs.length, 1);
+
+  const docFreq = new Map<string, number>();
+  for (const tf of termFreqs) {
+    for (const term of tf.keys()) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+  }
+  const idf = (term: string) => {
+    const n = docFreq.get(term) ?? 0;
+    return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    size: docs.length,
+    search(query, limit, filter) {
+      const queryIds = new Set(identifiers(query));
+      const queryTerms = [...new Set([...tokenize(query), ...[...queryIds].map((id) => id.toLowerCase())])];
+      const pinned = exactNames(query);
+
+      const hits: LexicalHit[] = [];
+      docs.forEach((doc, i) => {
+        if (filter && !filter(doc)) return;
+        const tf = termFreqs[i];
+        let score = 0;
+        for (const term of queryTerms) {
+          const f = tf.get(term);
+          if (!f) continue;
+          score += idf(term) * (f * (K1 + 1)) / (f + K1 * (1 - B + B * lengths[i] / avgLength));
+        }
+        const exact = isExactMatch(doc, pinned);
+        if (score > 0 || exact) hits.push({ doc, score, exact });
+      });
+
+      // Exact name matches first, then by BM25 score
+      return hits
+        .sort((a, b) => Number(b.exact) - Number(a.exact) || b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,264 @@
+import {
+  getNamedType,
+  isCompositeType,
+  isLeafType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isInterfaceType,
+  Kind,
+  valueFromASTUntyped,
+  type DocumentNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type GraphQLCompositeType,
+  type GraphQLOutputType,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from "graphql";
+
+/* ---------------------------------------------------------------------------
+ * Query depth, alias, root field and cost limits
+ *
+ * Checked against the parsed document before execution. Cost is estimated
+ * as the sum of field weights, with the cost of a list field's selection
+ * multiplied by its page-size argument (`first`, `limit`, ...) or by a
+ * default list size when the schema says the field returns a list.
+ * ------------------------------------------------------------------------- */
+
+export interface QueryLimits {
+  maxDepth?: number;
+  maxAliases?: number;
+  maxRootFields?: number;
+  maxCost?: number;
+  /** Cost overrides keyed by `Type.field` or by return type name */
+  costWeights?: Record<string, number>;
+  /** Arguments whose value multiplies the cost of the field's selection */
+  listSizeArguments?: string[];
+  /** Multiplier for list fields without a size argument */
+  defaultListSize?: number;
+}
+
+export type LimitName = "depth" | "aliases" | "rootFields" | "cost";
+
+export interface LimitViolation {
+  limit: LimitName;
+  message: string;
+  /** Dotted response path of the offending field, e.g. `user.friends.friends` */
+  path?: string;
+  locations?: { line: number; column: number }[];
+}
+
+export interface QueryMetrics {
+  depth: number;
+  aliases: number;
+  rootFields: number;
+  cost: number;
+}
+
+export const DEFAULT_LIST_SIZE_ARGUMENTS = ["first", "last", "limit", "pageSize", "take", "top"];
+
+interface FieldCost {
+  path: string;
+  node: FieldNode;
+  cost: number;
+}
+
+interface SelectionSummary {
+  cost: number;
+  /** Levels of fields in the selection set, counting its own; 0 when it selects none */
+  depth: number;
+  /** Response path of the deepest field, relative to the selection set */
+  deepestPath: string;
+  deepestNode?: FieldNode;
+  /** The fields the selection set selects directly, with their costs */
+  fields: FieldCost[];
+}
+
+function location(node: FieldNode) {
+  return node.loc ? [{ line: node.loc.startToken.line, column: node.loc.startToken.column }] : undefined;
+}
+
+function responseKey(node: FieldNode): string {
+  return node.alias?.value ?? node.name.value;
+}
+
+function isListOutput(type: GraphQLOutputType | undefined): boolean {
+  if (!type) return false;
+  return isListType(isNonNullType(type) ? type.ofType : type);
+}
+
+/**
+ * Measure an operation and report every configured limit it exceeds.
+ * @param document - The parsed operation document
+ * @param limits - The limits to enforce; unset limits are not checked
+ * @param options.schema - Enables type-aware weights and list detection
+ * @param options.variables - Resolves size arguments passed as variables
+ */
+export function checkQueryLimits(
+  document: DocumentNode,
+  limits: QueryLimits,
+  options: { schema?: GraphQLSchema | null; variables?: Record<string, unknown>; operationName?: string } = {},
+): { metrics: QueryMetrics; violations: LimitViolation[] } {
+  const { schema, variables = {} } = options;
+  const weights = limits.costWeights ?? {};
+  const sizeArgs = new Set(limits.listSizeArguments ?? DEFAULT_LIST_SIZE_ARGUMENTS);
+  const defaultListSize = limits.defaultListSize ?? 10;
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const operations: OperationDefinitionNode[] = [];
+  for (const def of document.definitions) {
+    if (def.kind === Kind.FRAGMENT_DEFINITION) fragments.set(def.name.value, def);
+    if (def.kind === Kind.OPERATION_DEFINITION) operations.push(def);
+  }
+  const operation = options.operationName
+    ? operations.find((op) => op.name?.value === options.operationName)
+    : operations[0];
+
+  const violations: LimitViolation[] = [];
+  const metrics: QueryMetrics = { depth: 0, aliases: 0, rootFields: 0, cost: 0 };
+  if (!operation) return { metrics, violations };
+
+  const aliasNodes: FieldNode[] = [];
+
+  // Flatten fragment spreads and inline fragments into the fields they select. As in
+  // execution, a fragment spread twice into the same selection set adds nothing the second time
+  const collectFields = (
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLCompositeType | undefined,
+    included = new Set<string>(),
+    out: { node: FieldNode; parentType?: GraphQLCompositeType }[] = [],
+  ) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        out.push({ node: selection, parentType });
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const typeName = selection.typeCondition?.name.value;
+        const type = typeName && schema ? schema.getType(typeName) : parentType;
+        collectFields(selection.selectionSet, isCompositeType(type) ? type : parentType, included, out);
+      } else {
+        const name = selection.name.value;
+        const fragment = fragments.get(name);
+        if (!fragment || included.has(name)) continue;
+        included.add(name);
+        const type = schema?.getType(fragment.typeCondition.name.value);
+        collectFields(fragment.selectionSet, isCompositeType(type) ? type : parentType, included, out);
+      }
+    }
+    return out;
+  };
+
+  const sizeArgument = (node: FieldNode): number | undefined => {
+    for (const arg of node.arguments ?? []) {
+      if (!sizeArgs.has(arg.name.value)) continue;
+      const value = valueFromASTUntyped(arg.value, variables);
+      if (typeof value === "number" && value >= 0) return value;
+    }
+    return undefined;
+  };
+
+  const summaries = new Map<SelectionSetNode, Map<string, SelectionSummary>>();
+  const empty: SelectionSummary = { cost: 0, depth: 0, deepestPath: "", fields: [] };
+
+  // Measured once per selection set and parent type, so nested fragments that spread each
+  // other many times cost no more to check than the document is long
+  const measure = (selectionSet: SelectionSetNode, parentType: GraphQLCompositeType | undefined): SelectionSummary => {
+    const byType = summaries.get(selectionSet) ?? new Map<string, SelectionSummary>();
+    summaries.set(selectionSet, byType);
+    const typeKey = parentType?.name ?? "";
+    const known = byType.get(typeKey);
+    if (known) return known;
+    // Guard against fragment cycles; validation rejects them, but limits also run without a schema
+    byType.set(typeKey, empty);
+
+    const summary: SelectionSummary = { cost: 0, depth: 0, deepestPath: "", fields: [] };
+    for (const { node, parentType: fieldParent } of collectFields(selectionSet, parentType)) {
+      const name = node.name.value;
+      if (name.startsWith("__")) continue;
+      const key = responseKey(node);
+
+      const fieldDef = fieldParent && (isObjectType(fieldParent) || isInterfaceType(fieldParent))
+        ? fieldParent.getFields()[name]
+        : undefined;
+      const namedType = fieldDef ? getNamedType(fieldDef.type) : undefined;
+      const childType = isCompositeType(namedType) ? namedType : undefined;
+
+      const isLeaf = namedType ? isLeafType(namedType) : !node.selectionSet;
+      const weight =
+        (fieldParent && weights[`${fieldParent.name}.${name}`]) ??
+        (namedType && weights[namedType.name]) ??
+        (isLeaf ? 0 : 1);
+
+      const child = node.selectionSet ? measure(node.selectionSet, childType) : empty;
+      const multiplier = sizeArgument(node) ?? (isListOutput(fieldDef?.type) ? defaultListSize : 1);
+      const cost = weight + multiplier * child.cost;
+
+      if (child.depth + 1 > summary.depth) {
+        summary.depth = child.depth + 1;
+        summary.deepestPath = child.deepestPath ? `${key}.${child.deepestPath}` : key;
+        summary.deepestNode = child.deepestNode ?? node;
+      }
+      summary.fields.push({ path: key, node, cost });
+      summary.cost += cost;
+    }
+    byType.set(typeKey, summary);
+    return summary;
+  };
+
+  // Aliases are counted as written, wherever they appear in the document
+  const countAliases = (selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD && selection.alias) aliasNodes.push(selection);
+      if ("selectionSet" in selection && selection.selectionSet) countAliases(selection.selectionSet);
+    }
+  };
+  countAliases(operation.selectionSet);
+  for (const fragment of fragments.values()) countAliases(fragment.selectionSet);
+
+  const rootType = schema?.getRootType(operation.operation) ?? undefined;
+  const root = measure(operation.selectionSet, rootType);
+  const rootCosts = root.fields;
+  const deepest = { path: root.deepestPath, node: root.deepestNode };
+  metrics.cost = root.cost;
+  metrics.depth = root.depth;
+  metrics.aliases = aliasNodes.length;
+  metrics.rootFields = rootCosts.length;
+
+  if (limits.maxDepth && metrics.depth > limits.maxDepth) {
+    violations.push({
+      limit: "depth",
+      message: `Query depth ${metrics.depth} exceeds the maximum of ${limits.maxDepth} at '${deepest.path}'.`,
+      path: deepest.path,
+      locations: deepest.node && location(deepest.node),
+    });
+  }
+  if (limits.maxAliases && metrics.aliases > limits.maxAliases) {
+    const first = aliasNodes[limits.maxAliases];
+    violations.push({
+      limit: "aliases",
+      message: `Query uses ${metrics.aliases} aliases, more than the maximum of ${limits.maxAliases}. The first alias over the limit is '${first.alias!.value}'.`,
+      locations: location(first),
+    });
+  }
+  if (limits.maxRootFields && metrics.rootFields > limits.maxRootFields) {
+    const first = rootCosts[limits.maxRootFields];
+    violations.push({
+      limit: "rootFields",
+      message: `Query selects ${metrics.rootFields} root fields, more than the maximum of ${limits.maxRootFields}. The first field over the limit is '${first.path}'.`,
+      path: first.path,
+      locations: location(first.node),
+    });
+  }
+  if (limits.maxCost && metrics.cost > limits.maxCost) {
+    const top = [...rootCosts].sort((a, b) => b.cost - a.cost)[0];
+    violations.push({
+      limit: "cost",
+      message: `Estimated query cost ${metrics.cost} exceeds the budget of ${limits.maxCost}. The most expensive root field is '${top.path}' (cost ${top.cost}); request fewer items with arguments like ${[...sizeArgs].slice(0, 2).join("/")} or select fewer nested fields.`,
+      path: top.path,
+      locations: location(top.node),
+    });
+  }
+
+  return { metrics, violations };
+}
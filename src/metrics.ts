@@ -0,0 +1,151 @@
+/* ---------------------------------------------------------------------------
+ * Metrics
+ *
+ * Counters, gauges and histograms rendered in the Prometheus text exposition
+ * format for `/metrics`. Every metric registers itself on the shared
+ * `metrics` registry; gauges that mirror existing state (e.g. open
+ * sessions) are read through a callback at scrape time instead of being
+ * kept in sync.
+ * ------------------------------------------------------------------------- */
+
+export type Labels = Record<string, string | number>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  /** Start a timer; calling the result observes the elapsed seconds */
+  startTimer(labels?: Labels): (extra?: Labels) => void;
+}
+
+export interface GaugeSample {
+  labels?: Labels;
+  value: number;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  /** A gauge whose samples are collected when the metrics are rendered */
+  gauge(name: string, help: string, collect: () => GaugeSample[]): void;
+  /** All metrics in the Prometheus text format */
+  render(): string;
+}
+
+/** Prometheus client defaults, in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+// Sorted so the same labels in a different order land in the same series
+function labelKey(labels: Labels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(String(labels[name]))}"`)
+    .join(",");
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${Number.isFinite(value) ? value : value > 0 ? "+Inf" : value < 0 ? "-Inf" : "NaN"}`;
+}
+
+function formatBound(bound: number): string {
+  return bound === Infinity ? "+Inf" : String(bound);
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples(): string[];
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const registered = new Map<string, Metric>();
+
+  const register = (metric: Metric) => {
+    if (registered.has(metric.name)) throw new Error(`Metric '${metric.name}' is already registered`);
+    registered.set(metric.name, metric);
+  };
+
+  return {
+    counter(name, help) {
+      const values = new Map<string, number>();
+      register({
+        name,
+        help,
+        type: "counter",
+        samples: () => [...values].map(([key, value]) => sample(name, key, value)),
+      });
+      return {
+        inc(labels, value = 1) {
+          const key = labelKey(labels);
+          values.set(key, (values.get(key) ?? 0) + value);
+        },
+      };
+    },
+
+    histogram(name, help, buckets = DEFAULT_BUCKETS) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+      register({
+        name,
+        help,
+        type: "histogram",
+        samples: () =>
+          [...series].flatMap(([key, { labels, counts, sum, count }]) => [
+            ...bounds.map((bound, i) => sample(`${name}_bucket`, labelKey({ ...labels, le: formatBound(bound) }), counts[i])),
+            sample(`${name}_bucket`, labelKey({ ...labels, le: "+Inf" }), count),
+            sample(`${name}_sum`, key, sum),
+            sample(`${name}_count`, key, count),
+          ]),
+      });
+      const observe = (labels: Labels, value: number) => {
+        const key = labelKey(labels);
+        const entry = series.get(key) ?? { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+        // Buckets are cumulative: a value counts towards every bucket it fits in
+        bounds.forEach((bound, i) => {
+          if (value <= bound) entry.counts[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+      };
+      return {
+        observe,
+        startTimer(labels = {}) {
+          const started = process.hrtime.bigint();
+          return (extra = {}) => observe({ ...labels, ...extra }, Number(process.hrtime.bigint() - started) / 1e9);
+        },
+      };
+    },
+
+    gauge(name, help, collect) {
+      register({
+        name,
+        help,
+        type: "gauge",
+        samples: () => collect().map(({ labels, value }) => sample(name, labelKey(labels), value)),
+      });
+    },
+
+    render() {
+      const lines: string[] = [];
+      for (const metric of registered.values()) {
+        lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        lines.push(...metric.samples());
+      }
+      return `${lines.join("\n")}\n`;
+    },
+  };
+}
+
+/** The registry served at `/metrics` */
+export const metrics = createMetricsRegistry();
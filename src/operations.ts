@@ -0,0 +1,243 @@
+import { createHash } from "node:crypto";
+import { watch, type FSWatcher } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  getOperationAST,
+  isInputType,
+  Kind,
+  parse,
+  print,
+  TokenKind,
+  typeFromAST,
+  validate,
+  valueFromASTUntyped,
+  visit,
+  type DefinitionNode,
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type OperationTypeNode,
+} from "graphql";
+import type { InputArgument } from "./fieldtools.js";
+
+/* ---------------------------------------------------------------------------
+ * Persisted operations
+ *
+ * Named operations loaded from `.graphql` files. Each becomes its own tool,
+ * and the hashes of their normalized documents form the allowlist that
+ * `query-graphql` can be restricted to. Fragments may live in any file of
+ * the directory.
+ * ------------------------------------------------------------------------- */
+
+export interface PersistedOperation {
+  name: string;
+  operation: OperationTypeNode;
+  /** The operation and the fragments it uses, normalized with `print` */
+  document: string;
+  /** sha256 of `document` */
+  hash: string;
+  /** From the `#` comment lines directly above the operation */
+  description?: string;
+  definition: OperationDefinitionNode;
+  file: string;
+}
+
+export interface OperationLoadResult {
+  operations: PersistedOperation[];
+  /** Problems that kept an operation (or a whole file) from being loaded */
+  errors: string[];
+}
+
+const OPERATION_FILE = /\.(graphql|gql)$/;
+
+function hashDocument(document: string): string {
+  return createHash("sha256").update(document).digest("hex");
+}
+
+// Comment tokens stay linked into the token list, so walk back from the definition
+function leadingComment(definition: DefinitionNode): string | undefined {
+  const lines: string[] = [];
+  let token = definition.loc?.startToken.prev;
+  let line = definition.loc?.startToken.line ?? 0;
+  while (token && token.kind === TokenKind.COMMENT && token.line === line - 1) {
+    lines.unshift((token.value ?? "").trim());
+    line = token.line;
+    token = token.prev;
+  }
+  const text = lines.join(" ").trim();
+  return text || undefined;
+}
+
+// The operation plus every fragment it reaches, fragments sorted by name
+function standaloneDocument(
+  operation: OperationDefinitionNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+): { document: DocumentNode; missing: string[] } {
+  const used = new Map<string, FragmentDefinitionNode>();
+  const missing: string[] = [];
+  const collect = (node: OperationDefinitionNode | FragmentDefinitionNode) => {
+    visit(node, {
+      FragmentSpread(spread) {
+        const name = spread.name.value;
+        if (used.has(name) || missing.includes(name)) return;
+        const fragment = fragments.get(name);
+        if (!fragment) {
+          missing.push(name);
+          return;
+        }
+        used.set(name, fragment);
+        collect(fragment);
+      },
+    });
+  };
+  collect(operation);
+  const sorted = [...used.values()].sort((a, b) => a.name.value.localeCompare(b.name.value));
+  return { document: { kind: Kind.DOCUMENT, definitions: [operation, ...sorted] }, missing };
+}
+
+/**
+ * Allowlist hash of a submitted document: the selected operation and the
+ * fragments it uses, normalized the same way as persisted operations, so
+ * whitespace, comments and unused fragments do not matter.
+ */
+export function operationHash(document: DocumentNode, operationName?: string): string | null {
+  const operation = getOperationAST(document, operationName);
+  if (!operation) return null;
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const def of document.definitions) {
+    if (def.kind === Kind.FRAGMENT_DEFINITION) fragments.set(def.name.value, def);
+  }
+  return hashDocument(print(standaloneDocument(operation, fragments).document));
+}
+
+/**
+ * Parse every `.graphql`/`.gql` file below a directory. Files that fail to
+ * parse and anonymous or duplicate operations are reported, not fatal.
+ */
+export async function loadOperations(dir: string): Promise<OperationLoadResult> {
+  const errors: string[] = [];
+  const files = (await readdir(dir, { recursive: true }))
+    .filter((file) => OPERATION_FILE.test(file))
+    .sort();
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const definitions: { definition: OperationDefinitionNode; file: string }[] = [];
+  for (const file of files) {
+    let document: DocumentNode;
+    try {
+      document = parse(await readFile(path.join(dir, file), "utf8"));
+    } catch (error: any) {
+      errors.push(`${file}: ${error.message}`);
+      continue;
+    }
+    for (const def of document.definitions) {
+      if (def.kind === Kind.FRAGMENT_DEFINITION) {
+        if (fragments.has(def.name.value)) errors.push(`${file}: duplicate fragment '${def.name.value}'`);
+        fragments.set(def.name.value, def);
+      } else if (def.kind === Kind.OPERATION_DEFINITION) {
+        if (!def.name) errors.push(`${file}: operations must be named to become tools; skipped an anonymous ${def.operation}`);
+        else definitions.push({ definition: def, file });
+      }
+    }
+  }
+
+  const operations: PersistedOperation[] = [];
+  const names = new Set<string>();
+  for (const { definition, file } of definitions) {
+    const name = definition.name!.value;
+    if (names.has(name)) {
+      errors.push(`${file}: duplicate operation name '${name}'`);
+      continue;
+    }
+    names.add(name);
+    const { document, missing } = standaloneDocument(definition, fragments);
+    if (missing.length > 0) {
+      errors.push(`${file}: operation '${name}' uses unknown fragment(s) ${missing.join(", ")}`);
+      continue;
+    }
+    const printed = print(document);
+    operations.push({
+      name,
+      operation: definition.operation,
+      document: printed,
+      hash: hashDocument(printed),
+      description: leadingComment(definition),
+      definition,
+      file,
+    });
+  }
+  return { operations, errors };
+}
+
+/**
+ * Keep the operations that are valid against the schema and allowed by the
+ * mutation policy. Subscriptions cannot be run as tools.
+ */
+export function validateOperations(
+  schema: GraphQLSchema,
+  operations: PersistedOperation[],
+  options: { allowMutations: boolean },
+): OperationLoadResult {
+  const errors: string[] = [];
+  const valid = operations.filter((op) => {
+    if (op.operation === "subscription") {
+      errors.push(`${op.file}: subscription '${op.name}' cannot be exposed as a tool`);
+      return false;
+    }
+    if (op.operation === "mutation" && !options.allowMutations) {
+      errors.push(`${op.file}: mutation '${op.name}' skipped because mutations are not allowed`);
+      return false;
+    }
+    const validationErrors = validate(schema, parse(op.document));
+    if (validationErrors.length > 0) {
+      errors.push(`${op.file}: operation '${op.name}' is invalid: ${validationErrors.map((e) => e.message).join("; ")}`);
+      return false;
+    }
+    return true;
+  });
+  return { operations: valid, errors };
+}
+
+/** Tool inputs for the operation's variable definitions */
+export function operationVariables(schema: GraphQLSchema, op: PersistedOperation): InputArgument[] {
+  return (op.definition.variableDefinitions ?? []).flatMap((def) => {
+    const type = typeFromAST(schema, def.type);
+    if (!type || !isInputType(type)) return [];
+    return [{
+      name: def.variable.name.value,
+      type,
+      defaultValue: def.defaultValue ? valueFromASTUntyped(def.defaultValue) : undefined,
+    }];
+  });
+}
+
+/**
+ * Call `onChange` (debounced) whenever a file below the directory changes.
+ * Returns a function that stops watching.
+ */
+export function watchOperations(dir: string, onChange: () => void): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(dir, { recursive: true, persistent: false }, () => {
+      // Editors write several events per save
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(onChange, 200);
+    });
+  } catch (error: any) {
+    console.warn(`[Operations] Cannot watch ${dir}: ${error.message}`);
+    return () => undefined;
+  }
+  // E.g. the directory was deleted; keep serving the operations already loaded
+  watcher.on("error", (error) => {
+    console.error(`[Operations] Stopped watching ${dir}: ${error.message}`);
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  });
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,18 @@
+/* ---------------------------------------------------------------------------
+ * Name patterns
+ *
+ * Field filters, API key tool lists, audit redaction and visibility rules
+ * all match names against simple globs: `*` matches any run of characters
+ * and `?` one character. Schema file globs, which treat `/` specially, live
+ * in introspection.ts.
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Compile a glob like `Query.*` into an anchored regular expression
+ * @param pattern - The glob
+ * @param options - `ignoreCase` to match regardless of case
+ */
+export function globToRegExp(pattern: string, options: { ignoreCase?: boolean } = {}): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, options.ignoreCase ? "i" : "");
+}
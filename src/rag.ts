@@ -1,103 +1,358 @@
-import { QdrantClient } from "@qdrant/js-client-rest";
-import { OpenAI } from "openai";
+import { createHash } from "node:crypto";
 import pLimit from "p-limit";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { splitSchema, SchemaDocument } from "./chunking.js";
+import { createEmbeddingProvider, EmbeddingOptions, EmbeddingProvider } from "./embeddings.js";
+import { buildLexicalIndex, LexicalIndex } from "./lexical.js";
+import { metrics } from "./metrics.js";
+import {
+  createVectorStore,
+  matchesFilter,
+  VectorFilter,
+  VectorPayload,
+  VectorStore,
+  VectorStoreOptions,
+} from "./vectorstore.js";
 
-const qdrant = new QdrantClient({ url: process.env.QDRANT_URL! });
-const openai = new OpenAI();
+const embeddingCalls = metrics.counter("mcp_embedding_calls_total", "Calls to the embedding provider, by provider and outcome");
+const embeddingDuration = metrics.histogram("mcp_embedding_call_duration_seconds", "Duration of calls to the embedding provider");
 
-const COL = process.env.QDRANT_COLLECTION ?? "graphql-schema";
+// Counts every call, whether it indexes the schema or embeds a search question
+function instrumented(provider: EmbeddingProvider): EmbeddingProvider {
+  return {
+    name: provider.name,
+    async embed(texts) {
+      const done = embeddingDuration.startTimer({ provider: provider.name });
+      try {
+        const vectors = await provider.embed(texts);
+        embeddingCalls.inc({ provider: provider.name, outcome: "ok" });
+        return vectors;
+      } catch (error) {
+        embeddingCalls.inc({ provider: provider.name, outcome: "error" });
+        throw error;
+      } finally {
+        done();
+      }
+    },
+  };
+}
+
+export interface FusionWeights {
+  /** Reciprocal-rank constant; larger values flatten the gap between ranks */
+  rrfK: number;
+  vectorWeight: number;
+  lexicalWeight: number;
+}
+
+export interface RagOptions {
+  embedding: EmbeddingOptions;
+  store: VectorStoreOptions;
+  /** Characters above which a non-root type also gets one document per field */
+  fieldSplitThreshold: number;
+  fusion: FusionWeights;
+}
+
+let ragOptions: RagOptions = {
+  embedding: { provider: "openai", model: "text-embedding-3-small", dimensions: 512 },
+  store: {},
+  fieldSplitThreshold: 800,
+  fusion: { rrfK: 60, vectorWeight: 1, lexicalWeight: 1 },
+};
+
+/**
+ * Apply the validated settings from config.ts. Call before the first
+ * refresh or search; omitted settings keep their defaults.
+ */
+export function configureRag(options: Partial<RagOptions>): void {
+  ragOptions = { ...ragOptions, ...options };
+}
+
+// Created on first use so a misconfigured provider surfaces as a RAG error, not a crash on import
+let embedder: EmbeddingProvider | null = null;
+function getEmbedder(): EmbeddingProvider {
+  if (!embedder) {
+    embedder = instrumented(createEmbeddingProvider(ragOptions.embedding));
+    console.log(`[RAG] Using embedding provider ${embedder.name}`);
+  }
+  return embedder;
+}
+
+let store: VectorStore | null = null;
+function getStore(): VectorStore {
+  if (!store) {
+    store = createVectorStore(ragOptions.store);
+    console.log(`[RAG] Using vector store ${store.name}`);
+  }
+  return store;
+}
+
+// Keyword indexes over the current schema documents per collection, rebuilt on every refresh
+const lexicalIndexes = new Map<string, LexicalIndex>();
+
+// Contents of the documents in the schema most recently passed to
+// refreshSchema. Search drops hits outside this set, so while a refresh is
+// pending or after it fails, the previous index cannot surface types or
+// fields the new schema hides
+const currentDocuments = new Map<string, Set<string>>();
+
+// Documents in the vector collection each alias points at, once a refresh has completed
+const indexedCounts = new Map<string, number>();
+
+/** Documents indexed for a collection, or 0 until its first refresh succeeds */
+export function indexedDocuments(collection: string): number {
+  return indexedCounts.get(collection) ?? 0;
+}
+
+function toPayload(doc: SchemaDocument): VectorPayload {
+  return {
+    text: doc.text,
+    kind: doc.kind,
+    typeName: doc.typeName,
+    fieldName: doc.fieldName ?? null,
+    isRootField: doc.isRootField,
+    operation: doc.operation ?? null,
+    deprecated: doc.deprecated,
+  };
+}
+
+function fromPayload(payload: VectorPayload): SchemaDocument {
+  return {
+    text: payload.text as string ?? '',
+    kind: (payload.kind ?? "object") as SchemaDocument["kind"],
+    typeName: payload.typeName as string ?? '',
+    fieldName: payload.fieldName as string | undefined ?? undefined,
+    isRootField: Boolean(payload.isRootField),
+    operation: payload.operation as SchemaDocument["operation"] ?? undefined,
+    deprecated: Boolean(payload.deprecated),
+  };
+}
 
 /* ---------- 3-A  (re)load schema into the vector DB -------------------- */
-export async function refreshSchema(schemaSDL: string) {
-  // 1. Use RecursiveCharacterTextSplitter with custom separators
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 800,
-    chunkOverlap: 80,
-    // Prioritize splitting on major definition boundaries
-    separators: [
-      "\n\ntype ", "\n\ninterface ", "\n\nenum ", "\n\ninput ",
-      "\n\nscalar ", "\n\ndirective ", "\n\nunion ",
-      "\n\n", "\n", " ", ""
-    ],
-    keepSeparator: true // Keep the separator prefix for context
-  });
-  const docs = await splitter.splitText(schemaSDL);
+
+// Documents sent to the embedding provider per request
+const EMBED_BATCH_SIZE = 100;
+
+// Point ids are UUIDs derived from a hash of the document and the embedding
+// model, so unchanged documents keep their id (and vector) across refreshes.
+function documentId(doc: SchemaDocument, model: string): string {
+  const hex = createHash("sha256")
+    .update(JSON.stringify([model, doc.kind, doc.typeName, doc.fieldName ?? null, doc.text]))
+    .digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Index the schema into a versioned collection named after the hash of its
+ * documents, then atomically repoint the collection alias at it. Vectors for
+ * documents that already exist in the live collection are copied instead
+ * of re-embedded, so restarting with an unchanged schema embeds nothing.
+ */
+export async function refreshSchema(schemaSDL: string, collection: string) {
+  // 1. Split the schema into one document per type (and per field for large types)
+  const docs = splitSchema(schemaSDL, ragOptions.fieldSplitThreshold);
   console.log(`[RAG] Split schema into ${docs.length} documents.`);
 
   if (docs.length === 0) {
-      console.error("[RAG] Error: No documents generated after splitting schema.");
+      throw new Error("No documents generated after splitting schema.");
+  }
+  currentDocuments.set(collection, new Set(docs.map(contentKey)));
+
+  const provider = getEmbedder();
+  const ids = docs.map((doc) => documentId(doc, provider.name));
+  const version = createHash("sha256").update([...ids].sort().join("\n")).digest("hex").slice(0, 12);
+  const target = `${collection}-${version}`;
+
+  try {
+    // 2. Nothing to do if the alias already points at this exact document set
+    const vectorStore = getStore();
+    const current = await vectorStore.resolveAlias(collection);
+    if (current === target) {
+      console.log(`[RAG] Schema unchanged, collection '${target}' is up to date.`);
+      indexedCounts.set(collection, docs.length);
+      lexicalIndexes.set(collection, buildLexicalIndex(docs));
       return;
+    }
+
+    // 3. Reuse vectors for documents already present in the live collection
+    const existing = new Map(
+      (current ? await vectorStore.retrieve(current, ids) : []).map((p) => [p.id, p.vector]),
+    );
+    const missing = docs.map((doc, i) => ({ doc, id: ids[i] })).filter(({ id }) => !existing.has(id));
+    console.log(`[RAG] Reusing ${existing.size} vectors, embedding ${missing.length} new or changed documents...`);
+
+    // 4. Embed new and changed documents, a batch per request
+    const limit = pLimit(3);
+    let embeddedCount = 0;
+    let failedCount = 0;
+    const totalDocs = missing.length;
+    const batches: (typeof missing)[] = [];
+    for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) batches.push(missing.slice(i, i + EMBED_BATCH_SIZE));
+
+    await Promise.all(
+      batches.map((batch) =>
+        limit(async () => {
+          try {
+              const vectors = await provider.embed(batch.map(({ doc }) => doc.text));
+              if (vectors.length !== batch.length) {
+                throw new Error(`expected ${batch.length} vectors, got ${vectors.length}`);
+              }
+              batch.forEach(({ id }, i) => existing.set(id, vectors[i]));
+              embeddedCount += batch.length;
+              console.log(`[RAG] Embedded ${embeddedCount}/${totalDocs} documents...`);
+          } catch(embedError) {
+              failedCount += batch.length;
+              console.error(`[RAG] Error embedding a batch of ${batch.length} documents:`, embedError);
+          }
+        })
+      )
+    );
+
+    // A partial collection would be mistaken for a complete one on the next
+    // refresh, so keep serving the previous index instead
+    if (failedCount > 0) {
+      throw new Error(`${failedCount} documents failed to embed; keeping the previous index.`);
+    }
+
+    // 5. Build the new collection next to the live one
+    const points = docs.map((doc, i) => ({ id: ids[i], vector: existing.get(ids[i])!, payload: toPayload(doc) }));
+    console.log(`[RAG] Building collection '${target}' with ${points.length} points...`);
+    await vectorStore.recreate(target, points[0].vector.length);
+    await vectorStore.upsert(target, points);
+
+    // 6. Swap the alias, then drop the stale collection. The lexical index
+    // follows the alias so both searches always describe the same schema
+    await vectorStore.setAlias(collection, target);
+    indexedCounts.set(collection, points.length);
+    lexicalIndexes.set(collection, buildLexicalIndex(docs));
+    console.log(`[RAG] Alias '${collection}' now points at '${target}'.`);
+    if (current) {
+      await vectorStore.deleteCollection(current);
+      console.log(`[RAG] Deleted stale collection '${current}'.`);
+    }
+    console.log(`[RAG] Schema refresh complete for collection '${collection}'.`);
+
+  } catch (storeError) {
+      console.error("[RAG] Error updating the vector store:", storeError);
+      // With no previous index to keep, serve keyword search over the new schema
+      if (!lexicalIndexes.has(collection)) lexicalIndexes.set(collection, buildLexicalIndex(docs));
+      throw storeError;
   }
+}
 
-  // 2. Embed documents
-  console.log(`[RAG] Starting embedding process for ${docs.length} documents...`);
-  const limit = pLimit(3);
-  let embeddedCount = 0;
-  const totalDocs = docs.length;
-
-  const vectors = await Promise.all(
-    docs.map((docContent: string) => // Added type for docContent
-      limit(async () => {
-        try {
-            const r = await openai.embeddings.create({
-              model: process.env.EMBED_MODEL ?? "text-embedding-3-small",
-              input: docContent
-            });
-            embeddedCount++;
-            console.log(`[RAG] Embedded ${embeddedCount}/${totalDocs} documents...`);
-            return { chunk: docContent, vec: r.data[0].embedding };
-        } catch(embedError) {
-            console.error(`[RAG] Error embedding chunk ${embeddedCount + 1}/${totalDocs}:`, embedError);
-            return null;
-        }
-      })
-    )
-  );
+export interface SchemaSearchHit extends SchemaDocument {
+  score: number;
+}
 
-  // Filter out any chunks that failed to embed
-  const validVectors = vectors.filter(v => v !== null) as { chunk: string, vec: number[] }[];
-  console.log(`[RAG] Embedding process completed. Successfully embedded ${validVectors.length} documents.`);
+export const SEARCH_KINDS = [
+  "type", "interface", "union", "enum", "input", "scalar", "directive",
+  "field", "query", "mutation", "subscription",
+] as const;
+export type SearchKind = typeof SEARCH_KINDS[number];
 
-  // Check if vectors were generated
-  if (validVectors.length === 0 || !validVectors[0]?.vec) {
-      console.error("Error: No vectors generated from schema chunks.");
-      return; // Or throw an error
+export interface SearchOptions {
+  k?: number;
+  /** Collection (alias) to search */
+  collection: string;
+  /** `type` means object types; `query`/`mutation`/`subscription` mean root fields */
+  kind?: SearchKind;
+  includeDeprecated?: boolean;
+}
+
+function buildFilter(options: SearchOptions): VectorFilter | undefined {
+  const filter: VectorFilter = {};
+  switch (options.kind) {
+    case undefined:
+      break;
+    case "type":
+      filter.kind = "object";
+      break;
+    case "query":
+    case "mutation":
+    case "subscription":
+      filter.operation = options.kind;
+      break;
+    default:
+      filter.kind = options.kind;
   }
+  if (options.includeDeprecated === false) filter.deprecated = false;
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
 
+/* ---------- 3-B  semantic retrieval ----------------------------------- */
+export async function semanticSearch(
+  question: string,
+  collection: string,
+  k = 5,
+  filter?: VectorFilter,
+): Promise<SchemaSearchHit[]> {
+  const [vector] = await getEmbedder().embed([question]);
+  const hits = await getStore().search(collection, vector, k, filter);
+  return hits.map(h => ({ ...fromPayload(h.payload), score: h.score }));
+}
+
+/* ---------- 3-C  hybrid lexical + semantic retrieval ------------------- */
+
+function hitKey(doc: SchemaDocument): string {
+  return `${doc.kind}:${doc.typeName}.${doc.fieldName ?? ""}`;
+}
+
+// Also changes when a type keeps its name but loses hidden fields
+function contentKey(doc: SchemaDocument): string {
+  return `${hitKey(doc)}\n${doc.text}`;
+}
+
+/**
+ * Fuse BM25 keyword hits with vector hits using weighted reciprocal-rank
+ * fusion. Documents named in the question by an unmistakable identifier,
+ * such as `createInvoice` or `Query.user`, always come first.
+ */
+export async function searchSchema(question: string, options: SearchOptions): Promise<SchemaSearchHit[]> {
+  const k = options.k ?? 5;
+  const filter = buildFilter(options);
+  const candidates = Math.max(k * 4, 20);
+  const { collection } = options;
+  const lexicalIndex = lexicalIndexes.get(collection) ?? buildLexicalIndex([]);
+  const visible = currentDocuments.get(collection) ?? new Set<string>();
+  const isCurrent = (doc: SchemaDocument) => visible.has(contentKey(doc));
+
+  const lexicalHits = lexicalIndex.search(
+    question,
+    candidates,
+    (doc) => isCurrent(doc) && matchesFilter(toPayload(doc), filter),
+  );
+
+  let vectorHits: SchemaSearchHit[] = [];
   try {
-    // 3. Recreate collection
-    console.log(`[RAG] Recreating Qdrant collection '${COL}'...`);
-    await qdrant.recreateCollection(COL, {
-      vectors: { size: validVectors[0].vec.length, distance: "Cosine" }
-    });
-
-    // 4. Upsert points
-    console.log(`[RAG] Upserting ${validVectors.length} points into collection '${COL}'...`);
-    await qdrant.upsert(COL, {
-      points: validVectors.map((v: { chunk: string, vec: number[] }, i: number) => ({ // Added types for v and i
-        id: i,
-        vector: v.vec,
-        payload: { text: v.chunk }
-      }))
-    });
-    console.log(`[RAG] Schema refresh complete for collection '${COL}'.`);
-
-  } catch (qdrantError) {
-      console.error("[RAG] Error interacting with Qdrant:", qdrantError);
+    vectorHits = (await semanticSearch(question, collection, candidates, filter)).filter(isCurrent);
+  } catch (error) {
+    // Keyword search still works while the embedding provider or vector store is unavailable
+    if (lexicalIndex.size === 0) throw error;
+    console.warn("[RAG] Vector search failed, falling back to keyword search only:", error);
   }
+
+  const { rrfK, vectorWeight, lexicalWeight } = ragOptions.fusion;
+  const fused = new Map<string, { doc: SchemaDocument; score: number; exact: boolean }>();
+  const add = (doc: SchemaDocument, rank: number, weight: number, exact = false) => {
+    const key = hitKey(doc);
+    const entry = fused.get(key) ?? { doc, score: 0, exact: false };
+    entry.score += weight / (rrfK + rank + 1);
+    entry.exact ||= exact;
+    fused.set(key, entry);
+  };
+  lexicalHits.forEach((hit, rank) => add(hit.doc, rank, lexicalWeight, hit.exact));
+  vectorHits.forEach((hit, rank) => add(hit, rank, vectorWeight));
+
+  return [...fused.values()]
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.score - a.score)
+    .slice(0, k)
+    .map(({ doc, score }) => ({ ...doc, score }));
 }
 
-/* ---------- 3-B  semantic retrieval ----------------------------------- */
-export async function semanticSearch(question: string, k = 5) {
-  const ve = await openai.embeddings.create({
-    model: process.env.EMBED_MODEL ?? "text-embedding-3-small",
-    input: question
-  });
-  const hits = await qdrant.search(COL, {
-    vector: ve.data[0].embedding,
-    limit: k
-  });
-  // Safely map results, providing default for missing text
-  return hits.map(h => h.payload?.text as string ?? '');
+/**
+ * Human-readable origin of a search hit, e.g. `Query.user (root field)`.
+ */
+export function describeHit(hit: SchemaSearchHit): string {
+  const location = hit.fieldName ? `${hit.typeName}.${hit.fieldName}` : hit.typeName;
+  const labels = [hit.isRootField ? "root field" : hit.kind];
+  if (hit.deprecated) labels.push("deprecated");
+  return `${location} (${labels.join(", ")})`;
 }
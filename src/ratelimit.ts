@@ -0,0 +1,205 @@
+import { z } from "zod";
+
+/* ---------------------------------------------------------------------------
+ * Rate limits
+ *
+ * Token buckets keyed by scope (global, API key, session) and by what is
+ * being limited (transport requests or one tool), plus a cap on concurrent
+ * upstream requests. A bucket holds up to `burst` tokens and refills at
+ * `perMinute` tokens per minute; each request takes one token.
+ * ------------------------------------------------------------------------- */
+
+export const RATE_LIMIT_SCOPES = ["global", "key", "session"] as const;
+export type RateLimitScope = (typeof RATE_LIMIT_SCOPES)[number];
+
+export interface RateLimit {
+  perMinute: number;
+  /** Bucket capacity; defaults to `perMinute` */
+  burst?: number;
+}
+
+export type RateLimitRules = Partial<Record<RateLimitScope, RateLimit>>;
+
+const RateLimitSchema = z.object({
+  perMinute: z.number().positive(),
+  burst: z.number().int().positive().optional(),
+});
+
+// Limits for each scope; a scope without a rule is unlimited
+export const RateLimitRulesSchema = z
+  .object({
+    global: RateLimitSchema.optional(),
+    key: RateLimitSchema.optional(),
+    session: RateLimitSchema.optional(),
+  })
+  .strict();
+
+/** Rules for transport requests, and per tool name ('*' for tools without their own) */
+export const RateLimitConfigSchema = z
+  .object({
+    requests: RateLimitRulesSchema.optional(),
+    tools: z.record(RateLimitRulesSchema).optional(),
+  })
+  .strict();
+
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
+
+/** One bucket a request has to take a token from */
+export interface BucketRequest {
+  scope: RateLimitScope;
+  /** Identifies the bucket, e.g. `tool:search-schema:session:<id>` */
+  key: string;
+  limit: RateLimit;
+}
+
+export interface RateLimitDenial {
+  scope: RateLimitScope | "concurrency";
+  limit?: RateLimit;
+  /** Milliseconds until a token is available in the bucket that denied the request */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Take one token from every bucket, or from none of them when any bucket
+   * is empty. Returns the denial with the longest wait, or null.
+   */
+  take(requests: BucketRequest[]): RateLimitDenial | null;
+}
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+  limit: RateLimit;
+}
+
+// Idle buckets refill to capacity and are then no different from new ones
+const PRUNE_THRESHOLD = 1000;
+
+function capacity(limit: RateLimit): number {
+  return Math.max(1, limit.burst ?? limit.perMinute);
+}
+
+function refill(bucket: Bucket, now: number) {
+  bucket.tokens = Math.min(capacity(bucket.limit), bucket.tokens + ((now - bucket.updated) / 60_000) * bucket.limit.perMinute);
+  bucket.updated = now;
+}
+
+export function createRateLimiter(): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= capacity(bucket.limit)) buckets.delete(key);
+    }
+  };
+
+  return {
+    take(requests) {
+      const now = Date.now();
+      if (buckets.size > PRUNE_THRESHOLD) prune(now);
+
+      let denial: RateLimitDenial | null = null;
+      const filled = requests.map(({ scope, key, limit }) => {
+        let bucket = buckets.get(key);
+        if (!bucket) {
+          bucket = { tokens: capacity(limit), updated: now, limit };
+          buckets.set(key, bucket);
+        }
+        // Rules can change between requests, e.g. per-key limits
+        bucket.limit = limit;
+        refill(bucket, now);
+        if (bucket.tokens < 1) {
+          const retryAfterMs = Math.ceil(((1 - bucket.tokens) / limit.perMinute) * 60_000);
+          if (!denial || retryAfterMs > denial.retryAfterMs) denial = { scope, limit, retryAfterMs };
+        }
+        return bucket;
+      });
+      if (denial) return denial;
+      filled.forEach((bucket) => (bucket.tokens -= 1));
+      return null;
+    },
+  };
+}
+
+/** The buckets a request falls into, for the scopes that have a rule */
+export function bucketRequests(
+  prefix: string,
+  rules: RateLimitRules | undefined,
+  ids: { key?: string; session?: string },
+): BucketRequest[] {
+  if (!rules) return [];
+  const requests: BucketRequest[] = [];
+  for (const scope of RATE_LIMIT_SCOPES) {
+    const limit = rules[scope];
+    if (!limit) continue;
+    if (scope === "global") {
+      requests.push({ scope, key: `${prefix}:global`, limit });
+      continue;
+    }
+    // Requests without a key or session (e.g. a session's first request) skip that scope
+    const id = ids[scope];
+    if (id) requests.push({ scope, key: `${prefix}:${scope}:${id}`, limit });
+  }
+  return requests;
+}
+
+/* ---------- concurrency ------------------------------------------------- */
+
+export interface ConcurrencyLimiter {
+  /**
+   * Wait for a free slot for up to `timeoutMs`. Resolves with a function
+   * that frees the slot, or null when no slot became free in time.
+   */
+  acquire(timeoutMs: number): Promise<(() => void) | null>;
+  readonly active: number;
+}
+
+/** At most `max` holders at a time, served in arrival order; 0 means unlimited */
+export function createConcurrencyLimiter(max: number): ConcurrencyLimiter {
+  let active = 0;
+  const waiting: { grant: () => void }[] = [];
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next.grant();
+    else active--;
+  };
+
+  const slot = () => {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      release();
+    };
+  };
+
+  return {
+    acquire(timeoutMs) {
+      if (max <= 0) return Promise.resolve(() => undefined);
+      if (active < max) {
+        active++;
+        return Promise.resolve(slot());
+      }
+      return new Promise((resolve) => {
+        // A granted slot passes straight from the releasing holder to this waiter
+        const waiter = {
+          grant: () => {
+            clearTimeout(timer);
+            resolve(slot());
+          },
+        };
+        const timer = setTimeout(() => {
+          waiting.splice(waiting.indexOf(waiter), 1);
+          resolve(null);
+        }, timeoutMs);
+        waiting.push(waiter);
+      });
+    },
+    get active() {
+      return active;
+    },
+  };
+}
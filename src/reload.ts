@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import { unwatchFile, watchFile } from "node:fs";
+
+/* ---------------------------------------------------------------------------
+ * Live schema reload
+ *
+ * Re-loads the schema on a timer, when a local schema file changes, or on
+ * demand. Reloads never overlap: a request that arrives while one is running
+ * is folded into a single follow-up reload. Unchanged schemas (same hash)
+ * are skipped.
+ * ------------------------------------------------------------------------- */
+
+export interface ReloadResult {
+  changed: boolean;
+  hash: string;
+}
+
+export interface SchemaReloaderOptions {
+  /** Fetch the current schema SDL (introspection or file read) */
+  load: () => Promise<string>;
+  /** Called with the new SDL whenever its hash differs from the last load */
+  onChange: (schemaSDL: string, hash: string) => Promise<void>;
+  /** Re-load every this many milliseconds; 0 disables polling */
+  pollIntervalMs?: number;
+  /** Re-load when this file's modification time changes */
+  watchFile?: string;
+}
+
+export interface SchemaReloader {
+  /** Load now, or join/queue behind a reload that is already running */
+  reload(reason: string): Promise<ReloadResult>;
+  start(): void;
+  stop(): void;
+  /** Hash of the last successfully applied schema, if any */
+  readonly currentHash: string | null;
+  /** When the schema was last loaded successfully, whether or not it had changed */
+  readonly lastReloadAt: Date | null;
+  /** Why the most recent reload failed; cleared by the next successful one */
+  readonly lastError: string | null;
+}
+
+export function createSchemaReloader(options: SchemaReloaderOptions): SchemaReloader {
+  let currentHash: string | null = null;
+  let lastReloadAt: Date | null = null;
+  let lastError: string | null = null;
+  let running: Promise<ReloadResult> | null = null;
+  let queued: Promise<ReloadResult> | null = null;
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  const run = (reason: string): Promise<ReloadResult> =>
+    load(reason).then(
+      (result) => {
+        lastReloadAt = new Date();
+        lastError = null;
+        return result;
+      },
+      (error) => {
+        lastError = String(error?.message ?? error);
+        throw error;
+      },
+    );
+
+  const load = async (reason: string): Promise<ReloadResult> => {
+    console.log(`[Reload] Loading schema (${reason})...`);
+    const schemaSDL = await options.load();
+    const hash = createHash("sha256").update(schemaSDL).digest("hex");
+    if (hash === currentHash) {
+      console.log("[Reload] Schema unchanged.");
+      return { changed: false, hash };
+    }
+    await options.onChange(schemaSDL, hash);
+    currentHash = hash;
+    console.log(`[Reload] Schema updated (${hash.slice(0, 12)}).`);
+    return { changed: true, hash };
+  };
+
+  const reload = (reason: string): Promise<ReloadResult> => {
+    if (!running) {
+      running = run(reason).finally(() => {
+        running = null;
+      });
+      return running;
+    }
+    // Something may have changed after the running reload read the schema
+    queued ??= running
+      .catch(() => undefined)
+      .then(() => {
+        queued = null;
+        return reload(reason);
+      });
+    return queued;
+  };
+
+  // Background triggers log failures instead of rejecting
+  const trigger = (reason: string) => {
+    reload(reason).catch((error) => {
+      console.error(`[Reload] Schema reload (${reason}) failed:`, error.message ?? error);
+    });
+  };
+
+  return {
+    reload,
+    get currentHash() {
+      return currentHash;
+    },
+    get lastReloadAt() {
+      return lastReloadAt;
+    },
+    get lastError() {
+      return lastError;
+    },
+    start() {
+      if (options.pollIntervalMs && options.pollIntervalMs > 0) {
+        console.log(`[Reload] Polling schema every ${options.pollIntervalMs / 1000}s`);
+        pollTimer = setInterval(() => trigger("poll"), options.pollIntervalMs);
+        pollTimer.unref();
+      }
+      if (options.watchFile) {
+        console.log(`[Reload] Watching schema file ${options.watchFile}`);
+        // watchFile polls stat(), which survives editors that replace the file on save
+        watchFile(options.watchFile, { interval: 1000, persistent: false }, (curr, prev) => {
+          if (curr.mtimeMs !== prev.mtimeMs) trigger("file change");
+        });
+      }
+    },
+    stop() {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+      if (options.watchFile) unwatchFile(options.watchFile);
+    },
+  };
+}
@@ -0,0 +1,154 @@
+/* ---------------------------------------------------------------------------
+ * Upstream resilience
+ *
+ * Timeouts, retries with jittered exponential backoff and a circuit breaker
+ * per upstream. A request that times out, fails on the network or gets a
+ * 5xx counts as an upstream failure; after enough consecutive failures the
+ * breaker opens and requests fail fast until a trial request succeeds.
+ * ------------------------------------------------------------------------- */
+
+export interface RetryOptions {
+  /** Attempts after the first; 0 never retries */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Delay before retry number `attempt` (from 1): the exponential delay,
+ * capped, and then randomized between half and all of it so clients that
+ * failed together do not retry together.
+ */
+export function backoffDelay(attempt: number, options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.5 + Math.random() / 2));
+}
+
+// Statuses that may succeed when the same request is sent again
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/* ---------- circuit breaker --------------------------------------------- */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreaker {
+  /** Throws while the circuit is open, or while the half-open trial request is running */
+  check(): void;
+  success(): void;
+  failure(): void;
+  readonly state: CircuitState;
+}
+
+export interface CircuitBreakerOptions {
+  /** Shown in the error, e.g. the endpoint name */
+  name: string;
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  resetTimeoutMs: number;
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let trialRunning = false;
+
+  const open = () => {
+    state = "open";
+    openedAt = Date.now();
+    trialRunning = false;
+    console.warn(`[Upstream] Circuit for '${options.name}' opened after ${failures} consecutive failure(s).`);
+  };
+
+  // An open circuit becomes half-open once the reset timeout has passed
+  const current = (): CircuitState => {
+    if (state === "open" && Date.now() - openedAt >= options.resetTimeoutMs) state = "half-open";
+    return state;
+  };
+
+  return {
+    check() {
+      if (current() === "half-open" && !trialRunning) {
+        trialRunning = true;
+        return;
+      }
+      if (state === "closed") return;
+      const remaining = Math.max(1, Math.ceil((openedAt + options.resetTimeoutMs - Date.now()) / 1000));
+      throw new Error(
+        state === "open"
+          ? `Endpoint '${options.name}' is unavailable after ${failures} consecutive failed request(s); failing fast for another ${remaining}s.`
+          : `Endpoint '${options.name}' is unavailable; a trial request is checking whether it has recovered.`,
+      );
+    },
+    success() {
+      if (state !== "closed") console.log(`[Upstream] Circuit for '${options.name}' closed; the endpoint has recovered.`);
+      state = "closed";
+      failures = 0;
+      trialRunning = false;
+    },
+    failure() {
+      failures++;
+      if (state === "half-open" || (state === "closed" && failures >= options.failureThreshold)) open();
+    },
+    get state() {
+      return current();
+    },
+  };
+}
+
+/* ---------- resilient calls --------------------------------------------- */
+
+export interface UpstreamCallOptions<T> {
+  /** Abort an attempt after this long; 0 waits indefinitely */
+  timeoutMs: number;
+  /** Use `retries: 0` for requests that must not be repeated, such as mutations */
+  retry: RetryOptions;
+  breaker?: CircuitBreaker;
+  /** HTTP status of a result; results with a retryable or 5xx status count as failures */
+  status?: (result: T) => number;
+  onRetry?: (attempt: number, delayMs: number, reason: string) => void;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `request` with a timeout signal, retrying failures with backoff and
+ * reporting every attempt to the breaker. When retries run out, the last
+ * result is returned (or the last error thrown) as it was.
+ */
+export async function callUpstream<T>(
+  request: (signal: AbortSignal | undefined) => Promise<T>,
+  options: UpstreamCallOptions<T>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    options.breaker?.check();
+    const last = attempt >= options.retry.retries;
+    let reason: string;
+    try {
+      const result = await request(options.timeoutMs > 0 ? AbortSignal.timeout(options.timeoutMs) : undefined);
+      const status = options.status?.(result);
+      // A 429 or 408 says nothing about the upstream's health
+      if (status !== undefined && status >= 500) options.breaker?.failure();
+      else options.breaker?.success();
+      if (last || status === undefined || !isRetryableStatus(status)) return result;
+      reason = `HTTP ${status}`;
+    } catch (error: any) {
+      options.breaker?.failure();
+      const failure = error?.name === "TimeoutError"
+        ? new Error(`The upstream did not respond within ${options.timeoutMs / 1000}s`)
+        : error;
+      if (last) throw failure;
+      reason = failure?.message ?? String(failure);
+    }
+    const delay = backoffDelay(attempt + 1, options.retry);
+    options.onRetry?.(attempt + 1, delay, reason);
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  isIntrospectionType,
+  isSpecifiedScalarType,
+  printType,
+  type GraphQLNamedType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+} from "graphql";
+
+/* ---------------------------------------------------------------------------
+ * Schema resources
+ *
+ * Exact, browsable views of the loaded schema, served as MCP resources:
+ * the full SDL, one type's definition, and the fields of each root type.
+ * ------------------------------------------------------------------------- */
+
+export const ROOT_OPERATIONS = ["query", "mutation", "subscription"] as const;
+export type RootOperationName = (typeof ROOT_OPERATIONS)[number];
+
+export const SDL_MIME_TYPE = "application/graphql";
+
+// Completion responses are capped at 100 values by the protocol
+const MAX_COMPLETIONS = 100;
+
+/** Types defined by the schema itself, sorted by name; built-ins are left out */
+export function schemaTypes(schema: GraphQLSchema): GraphQLNamedType[] {
+  return Object.values(schema.getTypeMap())
+    .filter((type) => !isIntrospectionType(type) && !isSpecifiedScalarType(type))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function rootType(schema: GraphQLSchema, operation: RootOperationName): GraphQLObjectType | null | undefined {
+  switch (operation) {
+    case "query":
+      return schema.getQueryType();
+    case "mutation":
+      return schema.getMutationType();
+    case "subscription":
+      return schema.getSubscriptionType();
+  }
+}
+
+export function printTypeDefinition(schema: GraphQLSchema, name: string): string {
+  const type = schema.getType(name);
+  if (!type || isIntrospectionType(type)) {
+    throw new Error(`Unknown type '${name}'.`);
+  }
+  return printType(type);
+}
+
+/** Definition of the root type for an operation, listing all its root fields */
+export function printRootFields(schema: GraphQLSchema, operation: string): string {
+  if (!ROOT_OPERATIONS.includes(operation as RootOperationName)) {
+    throw new Error(`Unknown operation type '${operation}'. Expected one of: ${ROOT_OPERATIONS.join(", ")}.`);
+  }
+  const root = rootType(schema, operation as RootOperationName);
+  if (!root) {
+    throw new Error(`The schema does not define a ${operation} type.`);
+  }
+  return printType(root);
+}
+
+/** Operations the schema has a root type for */
+export function rootOperations(schema: GraphQLSchema): RootOperationName[] {
+  return ROOT_OPERATIONS.filter((operation) => rootType(schema, operation));
+}
+
+/**
+ * Names starting with the typed prefix first, then names containing it,
+ * both case-insensitive.
+ */
+export function completeNames(names: Iterable<string>, value: string): string[] {
+  const needle = value.toLowerCase();
+  const prefixed: string[] = [];
+  const containing: string[] = [];
+  for (const name of new Set(names)) {
+    const lower = name.toLowerCase();
+    if (lower.startsWith(needle)) prefixed.push(name);
+    else if (lower.includes(needle)) containing.push(name);
+  }
+  return [...prefixed.sort(), ...containing.sort()].slice(0, MAX_COMPLETIONS);
+}
@@ -0,0 +1,305 @@
+import {
+  getNamedType,
+  isAbstractType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isIntrospectionType,
+  isLeafType,
+  isNonNullType,
+  isObjectType,
+  isRequiredArgument,
+  isScalarType,
+  isUnionType,
+  print,
+  astFromValue,
+  type GraphQLArgument,
+  type GraphQLField,
+  type GraphQLInputField,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+} from "graphql";
+
+/* ---------------------------------------------------------------------------
+ * Schema graph
+ *
+ * Structured type descriptions and shortest-path search over the loaded
+ * schema: types are nodes, and output fields (plus `... on Type` fragments
+ * from abstract types to their possible types) are edges.
+ * ------------------------------------------------------------------------- */
+
+export interface ArgumentDescription {
+  name: string;
+  type: string;
+  description?: string;
+  defaultValue?: string;
+  required: boolean;
+  deprecationReason?: string;
+}
+
+export interface FieldDescription {
+  name: string;
+  type: string;
+  description?: string;
+  args: ArgumentDescription[];
+  deprecationReason?: string;
+}
+
+export interface TypeDescription {
+  name: string;
+  kind: "object" | "interface" | "union" | "enum" | "input" | "scalar";
+  description?: string;
+  fields?: FieldDescription[];
+  inputFields?: ArgumentDescription[];
+  interfaces?: string[];
+  /** Object types a union or interface can resolve to */
+  possibleTypes?: string[];
+  enumValues?: { name: string; description?: string; deprecationReason?: string }[];
+  specifiedByURL?: string;
+}
+
+// Case-insensitive Levenshtein distance
+function editDistance(a: string, b: string): number {
+  a = a.toLowerCase();
+  b = b.toLowerCase();
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+// Names close to `input`, closest first, with the same cut-off graphql-js uses
+function similarNames(input: string, names: string[]): string[] {
+  const threshold = Math.floor(input.length * 0.4) + 1;
+  return names
+    .map((name) => ({ name, distance: editDistance(input, name) }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .map(({ name }) => name);
+}
+
+/** Error for unknown type names, with "Did you mean" suggestions */
+function unknownType(schema: GraphQLSchema, name: string): Error {
+  const suggestions = similarNames(name, Object.keys(schema.getTypeMap()).filter((n) => !n.startsWith("__")));
+  const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.slice(0, 5).map((s) => `'${s}'`).join(", ")}?` : "";
+  return new Error(`Unknown type '${name}'.${hint}`);
+}
+
+function lookupType(schema: GraphQLSchema, name: string): GraphQLNamedType {
+  const type = schema.getType(name);
+  if (!type || isIntrospectionType(type)) throw unknownType(schema, name);
+  return type;
+}
+
+function describeInput(arg: GraphQLArgument | GraphQLInputField): ArgumentDescription {
+  const defaultValue = arg.defaultValue !== undefined ? astFromValue(arg.defaultValue, arg.type) : null;
+  return {
+    name: arg.name,
+    type: String(arg.type),
+    description: arg.description ?? undefined,
+    defaultValue: defaultValue ? print(defaultValue) : undefined,
+    required: isNonNullType(arg.type) && arg.defaultValue === undefined,
+    deprecationReason: arg.deprecationReason ?? undefined,
+  };
+}
+
+function describeField(field: GraphQLField<unknown, unknown>): FieldDescription {
+  return {
+    name: field.name,
+    type: String(field.type),
+    description: field.description ?? undefined,
+    args: field.args.map(describeInput),
+    deprecationReason: field.deprecationReason ?? undefined,
+  };
+}
+
+export function describeType(schema: GraphQLSchema, name: string): TypeDescription {
+  const type = lookupType(schema, name);
+  const base = { name: type.name, description: type.description ?? undefined };
+
+  if (isObjectType(type) || isInterfaceType(type)) {
+    return {
+      ...base,
+      kind: isObjectType(type) ? "object" : "interface",
+      fields: Object.values(type.getFields()).map(describeField),
+      interfaces: type.getInterfaces().map((i) => i.name),
+      possibleTypes: isInterfaceType(type) ? schema.getPossibleTypes(type).map((t) => t.name) : undefined,
+    };
+  }
+  if (isUnionType(type)) {
+    return { ...base, kind: "union", possibleTypes: type.getTypes().map((t) => t.name) };
+  }
+  if (isEnumType(type)) {
+    return {
+      ...base,
+      kind: "enum",
+      enumValues: type.getValues().map((v) => ({
+        name: v.name,
+        description: v.description ?? undefined,
+        deprecationReason: v.deprecationReason ?? undefined,
+      })),
+    };
+  }
+  if (isInputObjectType(type)) {
+    return { ...base, kind: "input", inputFields: Object.values(type.getFields()).map(describeInput) };
+  }
+  return { ...base, kind: "scalar", specifiedByURL: isScalarType(type) ? type.specifiedByURL ?? undefined : undefined };
+}
+
+/* ---------- path finding ------------------------------------------------ */
+
+type PathStep =
+  | { kind: "field"; parentType: string; field: GraphQLField<unknown, unknown> }
+  | { kind: "fragment"; typeName: string };
+
+export interface SchemaPath {
+  /** Readable path, e.g. `Query.customer -> Customer.invoices` */
+  path: string;
+  /** Number of fields traversed */
+  length: number;
+  /** Query skeleton selecting the target type along the path */
+  query: string;
+  /** Variables the skeleton declares for required arguments, with their types */
+  variables: Record<string, string>;
+}
+
+export interface FindPathOptions {
+  operation?: "query" | "mutation";
+  /** Maximum number of paths to return */
+  maxPaths?: number;
+  /** Maximum number of fields along a path */
+  maxLength?: number;
+}
+
+// Leaf fields selected on the target type in generated skeletons
+const MAX_SKELETON_FIELDS = 10;
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function outgoingSteps(schema: GraphQLSchema, type: GraphQLNamedType): PathStep[] {
+  const steps: PathStep[] = [];
+  if (isObjectType(type) || isInterfaceType(type)) {
+    for (const field of Object.values(type.getFields())) {
+      if (!field.name.startsWith("__")) steps.push({ kind: "field", parentType: type.name, field });
+    }
+  }
+  if (isAbstractType(type)) {
+    for (const possible of schema.getPossibleTypes(type)) steps.push({ kind: "fragment", typeName: possible.name });
+  }
+  return steps;
+}
+
+function stepTarget(schema: GraphQLSchema, step: PathStep): GraphQLNamedType {
+  return step.kind === "field" ? getNamedType(step.field.type) : schema.getType(step.typeName)!;
+}
+
+function targetSelection(type: GraphQLNamedType, indent: string): string[] {
+  if (isLeafType(type)) return [];
+  const fields = isObjectType(type) || isInterfaceType(type)
+    ? Object.values(type.getFields())
+        .filter((f) => isLeafType(getNamedType(f.type)) && !f.args.some(isRequiredArgument) && !f.deprecationReason)
+        .slice(0, MAX_SKELETON_FIELDS)
+        .map((f) => f.name)
+    : [];
+  return ["__typename", ...fields].map((name) => `${indent}${name}`);
+}
+
+function buildSkeleton(
+  schema: GraphQLSchema,
+  operation: "query" | "mutation",
+  target: GraphQLNamedType,
+  steps: PathStep[],
+): { query: string; variables: Record<string, string> } {
+  const variables: Record<string, string> = {};
+  const variableName = (field: string, arg: string) => {
+    let name = `${field}${capitalize(arg)}`;
+    for (let i = 2; variables[name] !== undefined; i++) name = `${field}${capitalize(arg)}${i}`;
+    return name;
+  };
+
+  const lines: string[] = [];
+  steps.forEach((step, depth) => {
+    const indent = "  ".repeat(depth + 1);
+    if (step.kind === "fragment") {
+      lines.push(`${indent}... on ${step.typeName} {`);
+      return;
+    }
+    const args = step.field.args
+      .filter(isRequiredArgument)
+      .map((arg) => {
+        const name = variableName(step.field.name, arg.name);
+        variables[name] = String(arg.type);
+        return `${arg.name}: $${name}`;
+      });
+    const call = args.length > 0 ? `${step.field.name}(${args.join(", ")})` : step.field.name;
+    lines.push(isLeafType(stepTarget(schema, step)) ? `${indent}${call}` : `${indent}${call} {`);
+  });
+  lines.push(...targetSelection(target, "  ".repeat(steps.length + 1)));
+  for (let depth = steps.length - 1; depth >= 0; depth--) {
+    if (!isLeafType(stepTarget(schema, steps[depth]))) lines.push(`${"  ".repeat(depth + 1)}}`);
+  }
+
+  const declarations = Object.entries(variables).map(([name, type]) => `$${name}: ${type}`);
+  const header = `${operation} ${operation === "query" ? "Get" : "Mutate"}${target.name}${
+    declarations.length > 0 ? `(${declarations.join(", ")})` : ""
+  } {`;
+  return { query: [header, ...lines, "}"].join("\n"), variables };
+}
+
+/**
+ * Shortest field paths from the root type of an operation to a target type,
+ * breadth-first so shorter paths always come first. Each type is expanded
+ * at most `maxPaths` times, which keeps the search linear in schema size.
+ */
+export function findPaths(schema: GraphQLSchema, targetName: string, options: FindPathOptions = {}): SchemaPath[] {
+  const { operation = "query", maxPaths = 3, maxLength = 8 } = options;
+  const target = lookupType(schema, targetName);
+  const root = operation === "query" ? schema.getQueryType() : schema.getMutationType();
+  if (!root) throw new Error(`The schema does not define a ${operation} type.`);
+
+  const expansions = new Map<string, number>();
+  const results: SchemaPath[] = [];
+  let frontier: { type: GraphQLNamedType; steps: PathStep[]; fields: number }[] = [
+    { type: root, steps: [], fields: 0 },
+  ];
+
+  while (frontier.length > 0 && results.length < maxPaths) {
+    const next: typeof frontier = [];
+    for (const { type, steps, fields } of frontier) {
+      const seen = expansions.get(type.name) ?? 0;
+      if (seen >= maxPaths) continue;
+      expansions.set(type.name, seen + 1);
+
+      for (const step of outgoingSteps(schema, type)) {
+        const stepType = stepTarget(schema, step);
+        // Never walk through the same type twice on one path
+        if (stepType === root || steps.some((s) => stepTarget(schema, s) === stepType)) continue;
+        const path = [...steps, step];
+        const length = fields + (step.kind === "field" ? 1 : 0);
+        if (stepType === target) {
+          results.push({ path: describePath(path), length, ...buildSkeleton(schema, operation, target, path) });
+          if (results.length >= maxPaths) break;
+        } else if (!isLeafType(stepType) && length < maxLength) {
+          next.push({ type: stepType, steps: path, fields: length });
+        }
+      }
+      if (results.length >= maxPaths) break;
+    }
+    frontier = next;
+  }
+  // Fragment steps add a search level but no field, so re-sort by field count
+  return results.sort((a, b) => a.length - b.length);
+}
+
+function describePath(steps: PathStep[]): string {
+  return steps
+    .map((step) => (step.kind === "field" ? `${step.parentType}.${step.field.name}` : `... on ${step.typeName}`))
+    .join(" -> ");
+}
@@ -4,54 +4,77 @@
 
 import express, { Request, Response, NextFunction } from "express";
 import { randomUUID } from "node:crypto";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, isInitializeRequest, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { env, upstreamConfigs, UpstreamConfig } from "./config.js";
 import { parse } from "graphql/language";
-import { introspectEndpoint, introspectLocalSchema } from "./introspection.js";
-import { refreshSchema, semanticSearch } from "./rag.js";
+import { execute, getOperationAST, print, printSchema, type DocumentNode, type GraphQLSchema } from "graphql";
+import {
+    buildSchemaFromSDL,
+    fetchSchemaUrl,
+    introspectLocalSchema,
+    isSchemaFile,
+    isSchemaUrl,
+    LoadedSchema,
+    querySchema,
+    schemaFromResponse,
+    usableSchemaSDL,
+} from "./introspection.js";
+import { configureRag, describeHit, indexedDocuments, refreshSchema, searchSchema, SEARCH_KINDS } from "./rag.js";
+import { createSchemaReloader, SchemaReloader } from "./reload.js";
+import { validateOperation } from "./validation.js";
+import {
+    applyVisibility,
+    directivesLostInIntrospection,
+    hasVisibilityRules,
+    introspectionUsage,
+    lostDirectivesError,
+} from "./visibility.js";
+import { checkQueryLimits } from "./limits.js";
+import { cacheKey, createResultCache, ResultCache } from "./cache.js";
+import { bucketRequests, createConcurrencyLimiter, createRateLimiter, RateLimitDenial, RateLimitRules } from "./ratelimit.js";
+import { ApiKey, createApiKeyStore, endpointAllowed, toolAllowed } from "./apikeys.js";
+import { AuditTrace, createAuditLog, redactVariables } from "./audit.js";
+import { metrics, METRICS_CONTENT_TYPE } from "./metrics.js";
+import { runSubscription, SubscriptionEnd } from "./subscriptions.js";
+import { backoffDelay, callUpstream, CircuitBreaker, createCircuitBreaker, UpstreamCallOptions } from "./resilience.js";
+import { buildUpstreamHeaders, captureHeaders } from "./headers.js";
+import { describeType, findPaths } from "./schemagraph.js";
+import { checkProjection, describeTruncation, project, readResult, shapeResult, ShapedResult, ShapeOptions } from "./shaping.js";
+import {
+  buildFieldOperation,
+  DEPTH_KEY,
+  fieldInputShape,
+  fieldToolSpecs,
+  fieldVariables,
+  FieldToolSpec,
+  inputArgumentsShape,
+} from "./fieldtools.js";
+import {
+  loadOperations,
+  operationHash,
+  operationVariables,
+  PersistedOperation,
+  validateOperations,
+  watchOperations,
+} from "./operations.js";
+import {
+  completeNames,
+  printRootFields,
+  printTypeDefinition,
+  rootOperations,
+  ROOT_OPERATIONS,
+  schemaTypes,
+  SDL_MIME_TYPE,
+} from "./resources.js";
 import fs from "node:fs/promises";
 import path from "node:path";
 
-/* ---------------------------------------------------------------------------
- * Environment Variable Parsing
- * ------------------------------------------------------------------------- */
-
-const EnvSchema = z.object({
-	NAME: z.string().default("mcp-graphql-srv"),
-	ENDPOINT: z.string().url().default("http://localhost:4000/graphql"),
-	ALLOW_MUTATIONS: z
-		.enum(["true", "false"])
-		.transform((value) => value === "true")
-		.default("false"),
-	HEADERS: z
-		.string()
-		.default("{}")
-		.transform((val, ctx) => {
-			try {
-				return JSON.parse(val);
-			} catch (e: any) {
-				ctx.addIssue({
-					code: z.ZodIssueCode.custom,
-					message: `HEADERS must be a valid JSON string: ${e.message}`,
-				});
-				return z.NEVER;
-			}
-		}),
-	SCHEMA: z.string().optional(),
-	MCP_API_KEY: z.string().optional().describe("Optional API key required in X-API-Key header for server access"),
-});
-
-let env: z.infer<typeof EnvSchema>;
-try {
-  env = EnvSchema.parse(process.env);
-} catch (error) {
-  console.error("Error parsing environment variables:", error);
-  process.exit(1);
-}
-
 /* ---------------------------------------------------------------------------
  * Helper Functions
  * ------------------------------------------------------------------------- */
@@ -73,82 +96,1253 @@ async function getVersion(): Promise<string> {
  * Authentication Middleware
  * ------------------------------------------------------------------------- */
 
+// Keys from API_KEYS_FILE, API_KEYS and MCP_API_KEY; a broken key file stops startup
+const apiKeys = (() => {
+    try {
+        return createApiKeyStore({
+            file: env.API_KEYS_FILE && path.resolve(env.API_KEYS_FILE),
+            inline: env.API_KEYS,
+            legacyKey: env.MCP_API_KEY,
+        });
+    } catch (error: any) {
+        console.error("Error loading API keys:", error.message);
+        process.exit(1);
+    }
+})();
+
 function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
-    // Skip auth if MCP_API_KEY is not configured
-    if (!env.MCP_API_KEY) {
+    // Skip auth if no API key is configured
+    if (!apiKeys.enabled) {
         return next();
     }
 
     const providedKey = req.headers['x-api-key'];
+    const result = apiKeys.authenticate(typeof providedKey === "string" ? providedKey : undefined);
 
-    if (!providedKey) {
+    if (!result.ok && result.reason === "missing") {
         console.warn("[Server] Authentication failed: Missing X-API-Key header");
         return res.status(401).send("Unauthorized: Missing X-API-Key header");
     }
 
-    if (providedKey !== env.MCP_API_KEY) {
+    if (!result.ok && result.reason === "expired") {
+        console.warn(`[Server] Authentication failed: API key '${result.key!.name}' has expired`);
+        return res.status(403).send("Forbidden: API Key has expired");
+    }
+
+    if (!result.ok) {
         console.warn("[Server] Authentication failed: Invalid X-API-Key");
         return res.status(403).send("Forbidden: Invalid API Key");
     }
 
     // API key is valid
-    console.log("[Server] API Key authentication successful.");
+    console.log(`[Server] API Key authentication successful for '${result.key.name}'.`);
+    res.locals.apiKey = result.key;
     next();
 }
 
+// Admin endpoints make the server re-load and re-embed schemas, so they only exist when callers must identify themselves
+function requireApiKeys(_req: Request, res: Response, next: NextFunction) {
+    if (apiKeys.enabled) return next();
+    res.status(404).json({ error: "Admin endpoints are only available when API keys are configured" });
+}
+
 /* ---------------------------------------------------------------------------
- * RAG Initialization (Run Once on Startup)
+ * Upstreams, RAG Initialization and Live Reload
  * ------------------------------------------------------------------------- */
+
+interface Upstream {
+    config: UpstreamConfig;
+    // The schema currently loaded from the upstream, used for local validation
+    schema: GraphQLSchema | null;
+    // Hash of the SDL `schema` was built from
+    schemaHash: string | null;
+    reloader: SchemaReloader;
+    // Persisted operations as parsed from disk, and those valid against the current schema
+    loadedOperations: PersistedOperation[];
+    operations: PersistedOperation[];
+    // Results of query operations, when RESULT_CACHE is enabled
+    cache: ResultCache<unknown>;
+    // Fails requests fast while the upstream keeps failing; null when CIRCUIT_BREAKER_THRESHOLD is 0
+    breaker: CircuitBreaker | null;
+    // Pending retry of a schema load that failed at startup
+    startupRetry: NodeJS.Timeout | null;
+}
+
+// Every connected McpServer, so sessions can be told when a schema changes
+const mcpServers = new Set<McpServer>();
+
+function notifySchemaChanged() {
+    for (const server of mcpServers) {
+        if (!server.isConnected()) continue;
+        server.server.sendToolListChanged().catch((error) => {
+            console.warn("[Server] Failed to send tools/list_changed notification:", error.message);
+        });
+        server.server.sendResourceListChanged().catch((error) => {
+            console.warn("[Server] Failed to send resources/list_changed notification:", error.message);
+        });
+    }
+}
+
+async function readSchemaSDL(upstream: Upstream): Promise<LoadedSchema & { source: string }> {
+    const { config } = upstream;
+    const { schema } = config;
+    if (schema && isSchemaUrl(schema)) {
+        console.log(`[RAG] Downloading schema for '${config.name}' from ${schema}`);
+        // The endpoint's headers and breaker are for the endpoint, not for wherever the schema is published
+        const loaded = await callUpstream(
+            (signal) => fetchSchemaUrl(schema, signal),
+            { ...upstreamCallOptions(upstream, true), breaker: undefined },
+        );
+        return { ...loaded, source: schema };
+    }
+    if (schema) {
+        console.log(`[RAG] Loading schema for '${config.name}' from local file: ${schema}`);
+        return { ...await introspectLocalSchema(schema), source: schema };
+    }
+    console.log(`[RAG] ${config.endpointSchema === "federation" ? "Fetching subgraph SDL" : "Introspecting schema"} for '${config.name}' from remote endpoint: ${config.endpoint}`);
+    const result = await callUpstream(
+        (signal) => querySchema(config.endpoint, config.endpointSchema, config.headers, signal),
+        { ...upstreamCallOptions(upstream, true), status: (result) => result.status },
+    );
+    return {
+        sdl: schemaFromResponse(result, config.endpoint, config.endpointSchema),
+        source: config.endpoint,
+        fromIntrospection: config.endpointSchema === "introspection",
+    };
+}
+
+// Only the visible part of the schema is returned, so hidden elements are never indexed,
+// listed or accepted in operations. Rejects a schema that does not build, so the previous
+// index stays in place.
+async function loadSchemaSDL(upstream: Upstream): Promise<string> {
+    const { config } = upstream;
+    const { sdl, source, fromIntrospection } = await readSchemaSDL(upstream);
+    usableSchemaSDL(sdl, source);
+    if (!hasVisibilityRules(config.visibility)) return sdl;
+    // Hiding nothing would expose what the rules are meant to hide
+    const lost = directivesLostInIntrospection(config.visibility);
+    if (fromIntrospection && lost.length > 0) throw lostDirectivesError(lost, source);
+    const visible = applyVisibility(sdl, config.visibility);
+    console.log(`[Visibility] Hiding ${visible.hiddenTypes} type(s) and ${visible.hiddenMembers} field(s), argument(s) and enum value(s) of '${config.name}'.`);
+    return usableSchemaSDL(visible.schemaSDL, `${source} after applying the visibility rules`);
+}
+
+// Timeout, retries and breaker for one upstream request; only idempotent requests are retried
+function upstreamCallOptions<T>(upstream: Upstream, idempotent: boolean): UpstreamCallOptions<T> {
+    return {
+        timeoutMs: env.UPSTREAM_TIMEOUT * 1000,
+        retry: {
+            retries: idempotent ? env.UPSTREAM_RETRIES : 0,
+            baseDelayMs: env.UPSTREAM_RETRY_DELAY * 1000,
+            maxDelayMs: env.UPSTREAM_RETRY_MAX_DELAY * 1000,
+        },
+        breaker: upstream.breaker ?? undefined,
+        onRetry: (attempt, delayMs, reason) => {
+            upstreamRetries.inc({ endpoint: upstream.config.name });
+            console.warn(`[Upstream] Request to '${upstream.config.name}' failed (${reason}); retry ${attempt}/${env.UPSTREAM_RETRIES} in ${delayMs}ms`);
+        },
+    };
+}
+
+function createUpstream(config: UpstreamConfig): Upstream {
+    const upstream: Upstream = {
+        config,
+        schema: null,
+        schemaHash: null,
+        reloader: createSchemaReloader({
+            load: () => loadSchemaSDL(upstream),
+            onChange: async (schemaSDL, hash) => {
+                // Validation should use the new schema even if re-indexing fails
+                upstream.schema = buildSchemaFromSDL(schemaSDL);
+                upstream.schemaHash = hash;
+                // Cached results may no longer match what the new schema returns
+                upstream.cache.clear();
+                applyOperations(upstream);
+                syncAllGeneratedTools();
+                console.log(`[RAG] Schema for '${config.name}' loaded successfully, refreshing vector store...`);
+                await refreshSchema(schemaSDL, config.collection);
+                notifySchemaChanged();
+            },
+            pollIntervalMs: env.SCHEMA_POLL_INTERVAL * 1000,
+            // Directories, globs and URLs are picked up by SCHEMA_POLL_INTERVAL instead
+            watchFile: config.schema && env.SCHEMA_WATCH && isSchemaFile(config.schema) ? config.schema : undefined,
+        }),
+        loadedOperations: [],
+        operations: [],
+        cache: createResultCache({ maxEntries: env.RESULT_CACHE_MAX_ENTRIES }),
+        breaker: env.CIRCUIT_BREAKER_THRESHOLD > 0
+            ? createCircuitBreaker({
+                name: config.name,
+                failureThreshold: env.CIRCUIT_BREAKER_THRESHOLD,
+                resetTimeoutMs: env.CIRCUIT_BREAKER_RESET * 1000,
+            })
+            : null,
+        startupRetry: null,
+    };
+    return upstream;
+}
+
+// Operations are re-validated against every new schema
+function applyOperations(upstream: Upstream) {
+    if (!upstream.config.operationsDir) return;
+    if (!upstream.schema) {
+        upstream.operations = [];
+        return;
+    }
+    const { operations, errors } = validateOperations(upstream.schema, upstream.loadedOperations, {
+        allowMutations: upstream.config.allowMutations,
+    });
+    errors.forEach((error) => console.warn(`[Operations] '${upstream.config.name}': ${error}`));
+    upstream.operations = operations;
+    console.log(`[Operations] ${operations.length} persisted operation(s) available for '${upstream.config.name}'.`);
+}
+
+async function reloadOperations(upstream: Upstream) {
+    const dir = upstream.config.operationsDir;
+    if (!dir) return;
+    try {
+        const { operations, errors } = await loadOperations(dir);
+        errors.forEach((error) => console.warn(`[Operations] '${upstream.config.name}': ${error}`));
+        upstream.loadedOperations = operations;
+    } catch (error: any) {
+        console.error(`[Operations] Failed to load operations for '${upstream.config.name}' from ${dir}:`, error.message);
+        return;
+    }
+    applyOperations(upstream);
+}
+
+configureRag({
+    embedding: {
+        provider: env.EMBED_PROVIDER,
+        model: env.EMBED_MODEL,
+        baseURL: env.EMBED_BASE_URL,
+        apiKey: env.EMBED_API_KEY,
+        dimensions: env.EMBED_DIMENSIONS,
+    },
+    store: {
+        kind: env.VECTOR_STORE,
+        qdrantUrl: env.QDRANT_URL,
+        qdrantApiKey: env.QDRANT_API_KEY,
+        file: env.VECTOR_STORE_PATH,
+    },
+    fieldSplitThreshold: env.FIELD_SPLIT_THRESHOLD,
+    fusion: {
+        rrfK: env.SEARCH_RRF_K,
+        vectorWeight: env.SEARCH_VECTOR_WEIGHT,
+        lexicalWeight: env.SEARCH_LEXICAL_WEIGHT,
+    },
+});
+
+// Keyed by name, in configuration order; the first upstream is the default
+const upstreams = new Map<string, Upstream>(
+    upstreamConfigs.map((config) => [config.name, createUpstream(config)]),
+);
+const defaultUpstream = upstreams.values().next().value!;
+
+function resolveUpstream(name?: string, session?: SessionContext): Upstream {
+    const upstream = name ? upstreams.get(name) : defaultUpstream;
+    if (!upstream) {
+        const names = [...upstreams.values()].filter((u) => !session || canReach(session, u)).map((u) => u.config.name);
+        throw new Error(`Unknown endpoint '${name}'. Configured endpoints: ${names.join(", ")}`);
+    }
+    if (session && !canReach(session, upstream)) {
+        throw new Error(`API key '${session.keyName}' may not use endpoint '${upstream.config.name}'.`);
+    }
+    return upstream;
+}
+
 async function initializeVectorStore() {
     console.log("[RAG] Initializing vector store...");
-    let schemaSDL: string;
+    for (const upstream of upstreams.values()) {
+        try {
+            await upstream.reloader.reload("startup");
+            console.log(`[RAG] Vector store initialization complete for '${upstream.config.name}'.`);
+        } catch (error: any) {
+            console.error("!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!");
+            console.error(`[RAG] Failed to initialize vector store for '${upstream.config.name}':`, error.message);
+            console.error("!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!");
+            // Serve what we can and keep trying; /readyz reports the endpoint as not ready meanwhile
+            scheduleStartupRetry(upstream, 1);
+        }
+    }
+}
+
+// Backs off up to a minute between attempts, until a load succeeds by any route
+function scheduleStartupRetry(upstream: Upstream, attempt: number) {
+    const delay = backoffDelay(attempt, { baseDelayMs: 1000, maxDelayMs: 60_000 });
+    console.warn(`[RAG] Retrying the schema load for '${upstream.config.name}' in ${Math.round(delay / 1000)}s (attempt ${attempt + 1})`);
+    upstream.startupRetry = setTimeout(() => {
+        upstream.startupRetry = null;
+        if (upstream.reloader.currentHash) return;
+        upstream.reloader.reload("startup retry").then(
+            () => console.log(`[RAG] Vector store initialization complete for '${upstream.config.name}'.`),
+            (error) => {
+                console.error(`[RAG] Schema load for '${upstream.config.name}' failed again:`, error.message);
+                if (!upstream.reloader.currentHash) scheduleStartupRetry(upstream, attempt + 1);
+            },
+        );
+    }, delay);
+}
+
+// Start a reload without waiting for it; the new index is swapped in when ready
+function triggerSchemaRefresh(upstream: Upstream, reason: string) {
+    upstream.reloader.reload(reason).catch((error) => {
+        console.error(`[RAG] Schema refresh of '${upstream.config.name}' (${reason}) failed:`, error.message);
+    });
+}
+
+function loadedSchema(upstream: Upstream): GraphQLSchema {
+    if (!upstream.schema) {
+        throw new Error(`The schema for endpoint '${upstream.config.name}' is not loaded yet.`);
+    }
+    return upstream.schema;
+}
+
+// Shared `endpoint` tool argument
+const endpointArgument = z
+    .string()
+    .optional()
+    .describe(`Name of the GraphQL API to use (one of: ${upstreamConfigs.map((u) => u.name).join(", ")}). Defaults to '${upstreamConfigs[0].name}'. Use list-endpoints to see them.`);
+
+// query-graphql arguments that only apply to subscription operations
+const subscriptionArguments = {
+    maxEvents: z.number().int().positive().optional().describe(`Subscriptions only: stop after this many events (at most ${env.SUBSCRIPTION_MAX_EVENTS})`),
+    duration: z.number().positive().optional().describe(`Subscriptions only: seconds to collect events for (at most ${env.SUBSCRIPTION_TIMEOUT})`),
+};
+
+/* ---------------------------------------------------------------------------
+ * Per-session context
+ * ------------------------------------------------------------------------- */
+
+interface SessionContext {
+    // Set once the transport has assigned the session id
+    id?: string;
+    // Name of the API key the session authenticated with, for logs and per-key rate limits
+    keyName: string;
+    // Its scopes; unset when authentication is disabled
+    apiKey?: ApiKey;
+    // Caller headers forwarded to the upstream on this session's queries
+    forwardedHeaders: Record<string, string>;
+}
+
+function createSessionContext(req: Request, res: Response, id?: string): SessionContext {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    const session: SessionContext = { id, keyName: apiKey?.name ?? "anonymous", apiKey, forwardedHeaders: {} };
+    captureSessionHeaders(req, session);
+    return session;
+}
+
+// A session stays bound to the API key that opened it
+function sessionKeyMatches(session: SessionContext, res: Response): boolean {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    return (apiKey?.name ?? "anonymous") === session.keyName;
+}
+
+function canReach(session: SessionContext, upstream: Upstream): boolean {
+    return !session.apiKey || endpointAllowed(session.apiKey, upstream.config.name);
+}
+
+function canCallTool(session: SessionContext, tool: string): boolean {
+    return !session.apiKey || toolAllowed(session.apiKey, tool);
+}
+
+const headerPolicies = upstreamConfigs.map((config) => config.headerPolicy);
+
+// Headers are re-read on every request so a refreshed caller token takes effect;
+// requests that omit a header keep the value captured earlier in the session
+function captureSessionHeaders(req: Request, session: SessionContext) {
+    Object.assign(session.forwardedHeaders, captureHeaders(req.headers, headerPolicies));
+}
+
+/* ---------------------------------------------------------------------------
+ * Rate limits
+ *
+ * Transport requests and tool calls draw from token buckets per API key,
+ * per session and globally (RATE_LIMITS). Upstream requests additionally
+ * wait for one of MAX_CONCURRENT_UPSTREAM slots.
+ * ------------------------------------------------------------------------- */
+
+const rateLimiter = createRateLimiter();
+const upstreamSlots = createConcurrencyLimiter(env.MAX_CONCURRENT_UPSTREAM);
+
+// A key's own rules replace the configured ones scope by scope
+function mergeRules(configured?: RateLimitRules, own?: RateLimitRules): RateLimitRules | undefined {
+    return configured || own ? { ...configured, ...own } : undefined;
+}
+
+function toolRules(tool: string, apiKey?: ApiKey): RateLimitRules | undefined {
+    const configured = env.RATE_LIMITS.tools?.[tool] ?? env.RATE_LIMITS.tools?.["*"];
+    const own = apiKey?.rateLimits?.tools?.[tool] ?? apiKey?.rateLimits?.tools?.["*"];
+    return mergeRules(configured, own);
+}
+
+function rateLimitDetails(denial: RateLimitDenial, tool?: string) {
+    return {
+        error: "rate_limited",
+        scope: denial.scope,
+        tool,
+        limit: denial.limit,
+        retryAfterSeconds: Math.max(1, Math.ceil(denial.retryAfterMs / 1000)),
+    };
+}
+
+function rateLimitedResult(denial: RateLimitDenial, tool?: string): CallToolResult {
+    const details = rateLimitDetails(denial, tool);
+    return {
+        isError: true,
+        content: [
+            {
+                type: "text",
+                text: `Rate limit exceeded (${denial.scope}), retry after ${details.retryAfterSeconds}s:\n${JSON.stringify(details, null, 2)}`,
+            },
+        ],
+    };
+}
+
+// Scopes and rate limits checked at the start of every tool call
+function admitToolCall(session: SessionContext, tool: string): CallToolResult | null {
+    if (!canCallTool(session, tool)) {
+        console.warn(`[Server] Tool call ${tool} denied for API key '${session.keyName}'`);
+        return {
+            isError: true,
+            content: [
+                {
+                    type: "text",
+                    text: `API key '${session.keyName}' may not call the tool '${tool}'.`,
+                },
+            ],
+        };
+    }
+    const rules = toolRules(tool, session.apiKey);
+    const denial = rateLimiter.take(bucketRequests(`tool:${tool}`, rules, { key: session.keyName, session: session.id }));
+    if (!denial) return null;
+    console.warn(`[Server] Tool call ${tool} rate limited (${denial.scope}, key=${session.keyName}, session=${session.id ?? "new"})`);
+    return rateLimitedResult(denial, tool);
+}
+
+// Transport requests over the limit get a 429 with a Retry-After header
+function rateLimitRequests(req: Request, res: Response, next: NextFunction) {
+    const sessionId = (req.headers["mcp-session-id"] as string | undefined) ?? (req.query.sessionId as string | undefined);
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    const rules = mergeRules(env.RATE_LIMITS.requests, apiKey?.rateLimits?.requests);
+    const denial = rateLimiter.take(
+        bucketRequests("requests", rules, { key: apiKey?.name ?? "anonymous", session: sessionId }),
+    );
+    if (!denial) return next();
+
+    const details = rateLimitDetails(denial);
+    console.warn(`[Server] ${req.method} ${req.baseUrl} rate limited (${denial.scope})`);
+    res.setHeader("Retry-After", String(details.retryAfterSeconds));
+    res.status(429).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: `Too Many Requests: retry after ${details.retryAfterSeconds}s`, data: details },
+        id: null,
+    });
+}
+
+/* ---------------------------------------------------------------------------
+ * Audit log
+ *
+ * With AUDIT_LOG set, every GraphQL tool call is recorded, including calls
+ * rejected before anything was sent upstream.
+ * ------------------------------------------------------------------------- */
+
+const auditLog = env.AUDIT_LOG
+    ? createAuditLog({
+        file: path.resolve(env.AUDIT_LOG),
+        maxBytes: env.AUDIT_LOG_MAX_BYTES,
+        maxFiles: env.AUDIT_LOG_MAX_FILES,
+    })
+    : null;
+
+// Error messages can be long (validation errors include type definitions)
+const MAX_AUDIT_ERROR_LENGTH = 500;
+
+// query-graphql takes its variables as a JSON string
+function argumentVariables(args: Record<string, unknown>): unknown {
+    if (typeof args.variables !== "string") return null;
+    try {
+        return JSON.parse(args.variables);
+    } catch {
+        return null;
+    }
+}
+
+// For calls rejected before executeOperation, e.g. a mutation on a read-only endpoint
+function describeArgumentQuery(args: Record<string, unknown>): Partial<AuditTrace> {
+    if (typeof args.query !== "string") return {};
     try {
-        if (env.SCHEMA) {
-            console.log(`[RAG] Loading schema from local file: ${env.SCHEMA}`);
-            schemaSDL = await introspectLocalSchema(env.SCHEMA);
-        } else {
-            console.log(`[RAG] Introspecting schema from remote endpoint: ${env.ENDPOINT}`);
-            schemaSDL = await introspectEndpoint(env.ENDPOINT, env.HEADERS);
+        const document = parse(args.query);
+        const operation = getOperationAST(document);
+        return { query: print(document), operationName: operation?.name?.value, operationType: operation?.operation };
+    } catch {
+        return { query: args.query };
+    }
+}
+
+// What the SDK passes to a tool callback besides its arguments
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Wrap a GraphQL tool handler so each call is audited. The handler passes
+ * `trace` on to executeOperation, which fills in what was actually sent.
+ */
+function audited<A extends Record<string, unknown>>(
+    session: SessionContext,
+    tool: string,
+    handler: (args: A, trace: AuditTrace, extra: ToolExtra) => Promise<CallToolResult>,
+): (args: A, extra: ToolExtra) => Promise<CallToolResult> {
+    if (!auditLog) return (args, extra) => handler(args, {}, extra);
+    return async (args, extra) => {
+        const started = Date.now();
+        const trace: AuditTrace = {};
+        let result: CallToolResult | undefined;
+        let thrown: any;
+        try {
+            result = await handler(args, trace, extra);
+            return result;
+        } catch (error) {
+            thrown = error;
+            throw error;
+        } finally {
+            const text = result?.content.map((item) => (item.type === "text" ? item.text : "")).join("\n") ?? "";
+            if (!trace.query) Object.assign(trace, describeArgumentQuery(args));
+            const error = thrown
+                ? String(thrown?.message ?? thrown)
+                : result?.isError
+                    ? text
+                    : trace.graphqlErrors?.join("; ");
+            auditLog.write({
+                timestamp: new Date(started).toISOString(),
+                sessionId: session.id ?? null,
+                key: session.keyName,
+                tool,
+                endpoint: trace.endpoint ?? (typeof args.endpoint === "string" ? args.endpoint : defaultUpstream.config.name),
+                operationName: trace.operationName ?? null,
+                operationType: trace.operationType ?? null,
+                query: trace.query ?? null,
+                variables: redactVariables(trace.variables ?? argumentVariables(args), env.AUDIT_REDACT) ?? null,
+                upstreamStatus: trace.upstreamStatus ?? null,
+                cache: trace.cache,
+                durationMs: Date.now() - started,
+                resultBytes: Buffer.byteLength(text),
+                error: error ? error.slice(0, MAX_AUDIT_ERROR_LENGTH) : null,
+            });
+        }
+    };
+}
+
+/* ---------------------------------------------------------------------------
+ * Metrics
+ *
+ * Rendered at /metrics. Session and schema gauges are read from the live
+ * registries whenever the metrics are scraped.
+ * ------------------------------------------------------------------------- */
+
+const toolCalls = metrics.counter("mcp_tool_calls_total", "Tool calls by tool and outcome");
+const toolDuration = metrics.histogram("mcp_tool_call_duration_seconds", "Duration of tool calls");
+const upstreamResponses = metrics.counter(
+    "mcp_upstream_responses_total",
+    "Upstream GraphQL responses by endpoint and HTTP status; status 'error' when no response arrived",
+);
+const upstreamDuration = metrics.histogram("mcp_upstream_request_duration_seconds", "Duration of upstream GraphQL requests");
+const upstreamRetries = metrics.counter("mcp_upstream_retries_total", "Retried upstream requests by endpoint");
+const sessionTimeouts = metrics.counter("mcp_session_timeouts_total", "Streamable HTTP sessions closed by the idle timeout");
+
+metrics.gauge("mcp_active_sessions", "Open MCP sessions by transport", () => [
+    { labels: { transport: "streamable_http" }, value: Object.keys(streamableTransports).length },
+    { labels: { transport: "sse" }, value: Object.keys(sseTransports).length },
+]);
+metrics.gauge("mcp_upstream_circuit_open", "1 while the circuit breaker of an endpoint fails requests fast", () =>
+    [...upstreams.values()]
+        .filter(({ breaker }) => breaker)
+        .map(({ config, breaker }) => ({ labels: { endpoint: config.name }, value: breaker!.state === "closed" ? 0 : 1 })),
+);
+metrics.gauge("mcp_schema_indexed_documents", "Schema documents in the search index of each endpoint", () =>
+    [...upstreams.values()].map(({ config }) => ({ labels: { endpoint: config.name }, value: indexedDocuments(config.collection) })),
+);
+metrics.gauge("mcp_schema_last_reload_timestamp_seconds", "Unix time of the last successful schema load of each endpoint", () =>
+    [...upstreams.values()]
+        .filter(({ reloader }) => reloader.lastReloadAt)
+        .map(({ config, reloader }) => ({ labels: { endpoint: config.name }, value: reloader.lastReloadAt!.getTime() / 1000 })),
+);
+
+// Counts and times every call of a tool; error results count as failures
+function measured<A extends unknown[]>(
+    tool: string,
+    handler: (...args: A) => Promise<CallToolResult>,
+): (...args: A) => Promise<CallToolResult> {
+    return async (...args) => {
+        const done = toolDuration.startTimer({ tool });
+        let outcome = "error";
+        try {
+            const result = await handler(...args);
+            if (!result.isError) outcome = "ok";
+            return result;
+        } finally {
+            toolCalls.inc({ tool, outcome });
+            done();
         }
-        console.log(`[RAG] Schema loaded successfully, refreshing vector store...`);
-        await refreshSchema(schemaSDL);
-        console.log("[RAG] Vector store initialization complete.");
+    };
+}
+
+/* ---------------------------------------------------------------------------
+ * Operation execution
+ *
+ * Validates, limit-checks and sends an operation to an upstream, and turns
+ * the response into a tool result. Shared by every tool that runs GraphQL.
+ * ------------------------------------------------------------------------- */
+async function executeOperation(
+  upstream: Upstream,
+  session: SessionContext,
+  query: string,
+  parsedQuery: DocumentNode,
+  parsedVariables?: Record<string, any>,
+  shape: ShapeOptions = {},
+  trace: AuditTrace = {},
+  subscription: SubscriptionOptions = {},
+): Promise<CallToolResult> {
+  const { config } = upstream;
+  const operation = getOperationAST(parsedQuery);
+  Object.assign(trace, {
+    endpoint: config.name,
+    operationName: operation?.name?.value,
+    operationType: operation?.operation,
+    query: print(parsedQuery),
+    variables: parsedVariables,
+  });
+  if (!canReach(session, upstream)) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `API key '${session.keyName}' may not use endpoint '${config.name}'.`,
+        },
+      ],
+    };
+  }
+  if (session.apiKey && !session.apiKey.allowMutations && parsedQuery.definitions.some(
+    (def) => def.kind === "OperationDefinition" && def.operation === "mutation",
+  )) {
+    console.warn(`[Server] Mutation rejected for read-only API key '${session.keyName}'.`);
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `API key '${session.keyName}' may not run mutations.`,
+        },
+      ],
+    };
+  }
+  if (operation?.operation === "subscription" && !env.SUBSCRIPTIONS) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: "Subscriptions are not enabled on this server. Set SUBSCRIPTIONS=true to enable them.",
+        },
+      ],
+    };
+  }
+  const shapeOptions = {
+    maxTokens: shape.maxTokens ?? env.RESPONSE_MAX_TOKENS,
+    compact: shape.compact ?? env.RESPONSE_COMPACT,
+    cursorTtlSeconds: env.RESULT_CURSOR_TTL,
+    maxStoredResults: env.RESULT_CURSOR_MAX,
+  };
+
+  // Only the visible schema knows what may be sent, so hidden fields are never forwarded unchecked
+  const restricted = hasVisibilityRules(config.visibility);
+  if (restricted && !upstream.schema) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `The schema for endpoint '${config.name}' has not been loaded yet, so the query was not sent. Try again shortly.`,
+        },
+      ],
+    };
+  }
+
+  // Validate against the loaded schema so broken queries never reach the upstream
+  if ((env.VALIDATE_QUERIES || restricted) && upstream.schema) {
+    const validation = validateOperation(upstream.schema, parsedQuery, parsedVariables);
+    if (!validation.valid) {
+      console.warn(`[Server] Query failed schema validation with ${validation.errors.length} error(s).`);
+      const relatedTypes = validation.relatedTypes.length > 0
+        ? `\n\nRelevant type definitions:\n\n${validation.relatedTypes.join("\n\n")}`
+        : "";
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `GraphQL query failed validation against the schema and was not sent:\n${JSON.stringify({ errors: validation.errors }, null, 2)}${relatedTypes}`,
+          },
+        ],
+      };
+    }
+  }
+
+  // Reject operations that are too deep, too wide or too expensive
+  const { metrics, violations } = checkQueryLimits(parsedQuery, {
+    maxDepth: env.MAX_QUERY_DEPTH,
+    maxAliases: env.MAX_QUERY_ALIASES,
+    maxRootFields: env.MAX_ROOT_FIELDS,
+    maxCost: env.MAX_QUERY_COST,
+    costWeights: env.QUERY_COST_WEIGHTS,
+    listSizeArguments: env.QUERY_LIST_SIZE_ARGS,
+    defaultListSize: env.QUERY_DEFAULT_LIST_SIZE,
+  }, { schema: upstream.schema, variables: parsedVariables });
+  if (violations.length > 0) {
+    console.warn(`[Server] Query rejected by limits: ${violations.map((v) => v.limit).join(", ")}`, metrics);
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `GraphQL query exceeds the configured limits and was not sent:\n${JSON.stringify({ violations, metrics }, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  // The upstream would describe its whole schema, so introspection is answered from the visible one
+  const introspection = restricted && operation ? introspectionUsage(parsedQuery, operation) : "none";
+  if (introspection === "mixed") {
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: "Introspection fields (__schema, __type) cannot be combined with other fields here; send them in a query of their own.",
+        },
+      ],
+    };
+  }
+  if (introspection === "only") {
+    const result = JSON.parse(JSON.stringify(
+      await execute({ schema: upstream.schema!, document: parsedQuery, variableValues: parsedVariables }),
+    ));
+    console.log("[Server] Introspection query answered from the visible schema.");
+    if (result.errors?.length) {
+      trace.graphqlErrors = result.errors.map((error: any) => String(error?.message ?? error));
+      return shapedContent(shapeResult(result, shapeOptions, session), "GraphQL query executed, but the response contains errors: ");
+    }
+    return shapedContent(shapeResult(shape.select ? project(result, shape.select) : result, shapeOptions, session));
+  }
+
+  if (operation?.operation === "subscription") {
+    return executeSubscription(upstream, session, query, parsedVariables, shape, shapeOptions, trace, subscription);
+  }
+
+  // Serve repeated queries from the cache
+  const cacheTtl = env.RESULT_CACHE && operation?.operation === "query" ? resultCacheTtl(operation.name?.value) : 0;
+  const key = cacheTtl > 0
+    ? cacheKey({
+        endpoint: config.name,
+        document: operationHash(parsedQuery) ?? print(parsedQuery),
+        variables: parsedVariables,
+        identity: session.forwardedHeaders,
+      })
+    : null;
+  const hit = key ? upstream.cache.get(key) : undefined;
+  if (hit) {
+    console.log("[Server] GraphQL query served from cache.");
+    trace.cache = "hit";
+    const result = shapedContent(shapeResult(shape.select ? project(hit.value, shape.select) : hit.value, shapeOptions, session));
+    result.content.push({
+      type: "text",
+      text: `[Served from cache: fetched ${Math.round(hit.age / 1000)}s ago, fresh for ${Math.round(hit.expiresIn / 1000)}s more.]`,
+    });
+    return result;
+  }
+
+  // Execute the GraphQL query
+  try {
+    const send = async () => {
+      const release = await upstreamSlots.acquire(env.UPSTREAM_QUEUE_TIMEOUT * 1000);
+      if (!release) return null;
+      try {
+        // A retried mutation could run twice upstream
+        const idempotent = operation?.operation !== "mutation" || env.RETRY_MUTATIONS;
+        return await sendOperation(upstream, session, query, parsedVariables, idempotent);
+      } finally {
+        release();
+      }
+    };
+    // Identical queries already in flight share one upstream request
+    const { promise, shared } = key ? upstream.cache.dedupe(key, send) : { promise: send(), shared: false };
+    const response = await promise;
+    if (!response) {
+      console.warn(`[Server] No upstream slot became free within ${env.UPSTREAM_QUEUE_TIMEOUT}s.`);
+      return rateLimitedResult({ scope: "concurrency", retryAfterMs: 1000 });
+    }
+    const responseText = response.text;
+    trace.upstreamStatus = response.status;
+    if (shared) trace.cache = "shared";
+
+    if (operation?.operation === "mutation" && env.RESULT_CACHE_INVALIDATE_ON_MUTATION) {
+      const dropped = upstream.cache.clear();
+      if (dropped > 0) console.log(`[Server] Mutation invalidated ${dropped} cached result(s) for '${config.name}'.`);
+    }
+
+    if (!response.ok) {
+      console.error(`[Server] GraphQL request failed: ${response.status} ${response.statusText}`, responseText);
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `GraphQL request failed: ${response.status} ${response.statusText}\n${responseText}`,
+          },
+        ],
+      };
+    }
+
+    // Harden JSON parsing
+    let data;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError: any) {
+      console.error("[Server] Failed to parse GraphQL JSON response:", parseError, responseText);
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `Failed to parse GraphQL JSON response: ${parseError.message}\nResponse Body Hint:\n${responseText.substring(0, 200)}...`,
+          },
+        ],
+      };
+    }
+
+    // Check for GraphQL-level errors in the now successfully parsed response
+    if (data.errors && data.errors.length > 0) {
+      console.warn("[Server] GraphQL response contained errors:", data.errors);
+      trace.graphqlErrors = data.errors.map((error: any) => String(error?.message ?? error));
+      // Errors are never projected away, but the response is still kept within budget
+      const shaped = shapeResult(data, shapeOptions, session);
+      return shapedContent(shaped, "GraphQL query executed, but the response contains errors: ");
+    }
+
+    // Success
+    console.log("[Server] GraphQL query successful.");
+    if (key && !shared) upstream.cache.set(key, data, cacheTtl * 1000);
+    const result = shapedContent(shapeResult(shape.select ? project(data, shape.select) : data, shapeOptions, session));
+    if (shared) {
+      result.content.push({ type: "text", text: "[Shared the response of an identical request that was already in flight.]" });
+    }
+    return result;
+  } catch (fetchError: any) {
+    console.error("[Server] Failed to execute GraphQL query (network/fetch issue?):", fetchError);
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `Failed to execute GraphQL query: ${fetchError.message}`,
+        },
+      ],
+    };
+  }
+}
+
+interface SubscriptionOptions {
+  maxEvents?: number;
+  durationSeconds?: number;
+  // Where events are streamed as logging notifications while the call runs
+  extra?: ToolExtra;
+}
+
+// Collects events until the subscription ends or a limit is reached, streaming each one as it arrives
+async function executeSubscription(
+  upstream: Upstream,
+  session: SessionContext,
+  query: string,
+  variables: Record<string, any> | undefined,
+  shape: ShapeOptions,
+  shapeOptions: ShapeOptions,
+  trace: AuditTrace,
+  options: SubscriptionOptions,
+): Promise<CallToolResult> {
+  const { config } = upstream;
+  // Callers may ask for less than the configured limits, never for more
+  const maxEvents = Math.min(options.maxEvents ?? env.SUBSCRIPTION_MAX_EVENTS, env.SUBSCRIPTION_MAX_EVENTS);
+  const durationSeconds = Math.min(options.durationSeconds ?? env.SUBSCRIPTION_TIMEOUT, env.SUBSCRIPTION_TIMEOUT);
+  const release = await upstreamSlots.acquire(env.UPSTREAM_QUEUE_TIMEOUT * 1000);
+  if (!release) {
+    console.warn(`[Server] No upstream slot became free within ${env.UPSTREAM_QUEUE_TIMEOUT}s.`);
+    return rateLimitedResult({ scope: "concurrency", retryAfterMs: 1000 });
+  }
+  console.log(`[Server] Subscribing at ${config.subscriptionEndpoint} (up to ${maxEvents} event(s) or ${durationSeconds}s)`);
+  const headers = buildUpstreamHeaders(config.headers, session.forwardedHeaders, config.headerPolicy);
+  // Only meaningful for the POSTed queries
+  headers.delete("Content-Type");
+  try {
+    const { events, end } = await runSubscription({
+      url: config.subscriptionEndpoint,
+      headers: Object.fromEntries(headers),
+      query,
+      variables,
+      operationName: trace.operationName,
+      maxEvents,
+      durationMs: durationSeconds * 1000,
+      connectTimeoutMs: env.SUBSCRIPTION_CONNECT_TIMEOUT * 1000,
+      signal: options.extra?.signal,
+      onEvent: (event, index) => {
+        options.extra?.sendNotification({
+          method: "notifications/message",
+          params: { level: "info", logger: "graphql-subscription", data: { event: index + 1, maxEvents, payload: event } },
+        }).catch((error) => {
+          console.warn("[Server] Failed to send subscription event notification:", error.message);
+        });
+      },
+    });
+    console.log(`[Server] Subscription ended (${end}) after ${events.length} event(s).`);
+    const errors = events.flatMap((event: any) => (Array.isArray(event?.errors) ? event.errors : []));
+    if (errors.length > 0) trace.graphqlErrors = errors.map((error: any) => String(error?.message ?? error));
+    const data = { end, events };
+    return shapedContent(
+      shapeResult(shape.select ? project(data, shape.select) : data, shapeOptions, session),
+      `Collected ${events.length} subscription event(s); ${describeSubscriptionEnd(end, maxEvents, durationSeconds)}:\n`,
+    );
+  } catch (error: any) {
+    console.error("[Server] Subscription failed:", error.message);
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `GraphQL subscription failed: ${error.message}`,
+        },
+      ],
+    };
+  } finally {
+    release();
+  }
+}
+
+function describeSubscriptionEnd(end: SubscriptionEnd, maxEvents: number, durationSeconds: number): string {
+  switch (end) {
+    case "complete":
+      return "the server completed the subscription";
+    case "max-events":
+      return `stopped at the limit of ${maxEvents} event(s)`;
+    case "duration":
+      return `stopped after ${durationSeconds}s`;
+    case "cancelled":
+      return "the call was cancelled";
+    case "closed":
+      return "the server closed the connection";
+  }
+}
+
+interface UpstreamResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text: string;
+}
+
+async function sendOperation(
+  upstream: Upstream,
+  session: SessionContext,
+  query: string,
+  variables: Record<string, any> | undefined,
+  idempotent: boolean,
+): Promise<UpstreamResponse> {
+  const { config } = upstream;
+  console.log(`[Server] Executing GraphQL query against ${config.endpoint}`);
+  const attempt = async (signal?: AbortSignal): Promise<UpstreamResponse> => {
+    const done = upstreamDuration.startTimer({ endpoint: config.name });
+    try {
+      const response = await fetch(config.endpoint, {
+        method: "POST",
+        signal,
+        headers: buildUpstreamHeaders(config.headers, session.forwardedHeaders, config.headerPolicy),
+        body: JSON.stringify({
+          query,
+          variables, // Use parsed variables
+        }),
+      });
+      const text = await response.text();
+      upstreamResponses.inc({ endpoint: config.name, status: response.status });
+      return { ok: response.ok, status: response.status, statusText: response.statusText, text };
+    } catch (error) {
+      upstreamResponses.inc({ endpoint: config.name, status: "error" });
+      throw error;
+    } finally {
+      done();
+    }
+  };
+  return callUpstream(attempt, { ...upstreamCallOptions(upstream, idempotent), status: (response) => response.status });
+}
+
+// Seconds to cache the result of an operation; overrides are keyed by operation name
+function resultCacheTtl(operationName?: string): number {
+  if (operationName && env.RESULT_CACHE_TTL_OVERRIDES[operationName] !== undefined) {
+    return env.RESULT_CACHE_TTL_OVERRIDES[operationName];
+  }
+  return env.RESULT_CACHE_TTL;
+}
+
+function shapedContent(shaped: ShapedResult, prefix = ""): CallToolResult {
+  const content: CallToolResult["content"] = [{ type: "text", text: `${prefix}${shaped.text}` }];
+  if (shaped.truncation) {
+    content.push({ type: "text", text: describeTruncation(shaped.truncation) });
+  }
+  return { content };
+}
+
+/* ---------------------------------------------------------------------------
+ * Generated tools
+ *
+ * Tools derived from the schema (one per root field, with FIELD_TOOLS=true)
+ * and from persisted operations. They are re-generated whenever a schema or
+ * an operations directory changes.
+ * ------------------------------------------------------------------------- */
+
+interface GeneratedTool {
+    name: string;
+    upstream: Upstream;
+    mutation: boolean;
+    // Tools whose signature is unchanged are kept as they are
+    signature: string;
+    register(server: McpServer, session: SessionContext): RegisteredTool;
+}
+
+interface GeneratedToolRegistry {
+    session: SessionContext;
+    tools: Map<string, { tool: RegisteredTool; signature: string }>;
+}
+
+const generatedToolRegistries = new Map<McpServer, GeneratedToolRegistry>();
+
+function registerFieldTool(server: McpServer, session: SessionContext, upstream: Upstream, spec: FieldToolSpec): RegisteredTool {
+  const { rootType, field } = spec;
+  const endpointNote = upstreams.size > 1 ? ` on the '${upstream.config.name}' API` : "";
+  const description = [
+    `${spec.operation === "mutation" ? "Run the mutation" : "Query"} ${rootType.name}.${field.name}${endpointNote}. Returns ${String(field.type)}.`,
+    field.description,
+  ].filter(Boolean).join(" ");
+
+  return server.tool(spec.name, description, fieldInputShape(field, env.FIELD_TOOLS_DEPTH), measured(spec.name, audited(session, spec.name, async (args, trace) => {
+    console.log(`[Server] Handling tool call: ${spec.name}`);
+    const limited = admitToolCall(session, spec.name);
+    if (limited) return limited;
+    // Tools survive schema reloads that leave their field alone, so build from the live schema
+    const liveRoot = spec.operation === "query" ? upstream.schema?.getQueryType() : upstream.schema?.getMutationType();
+    const liveField = liveRoot?.getFields()[field.name];
+    if (!liveRoot || !liveField) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `${rootType.name}.${field.name} no longer exists in the schema.`,
+          },
+        ],
+      };
+    }
+    const liveSpec = { ...spec, rootType: liveRoot, field: liveField };
+    const depth = typeof args[DEPTH_KEY] === "number" ? args[DEPTH_KEY] : env.FIELD_TOOLS_DEPTH;
+    const query = buildFieldOperation(liveSpec, args, depth);
+    let parsedQuery: DocumentNode;
+    try {
+      parsedQuery = parse(query);
+    } catch (error: any) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `Invalid selection: ${error.message}`,
+          },
+        ],
+      };
+    }
+    // A selection override must not smuggle in other operations
+    const operations = parsedQuery.definitions.filter((def) => def.kind === "OperationDefinition");
+    if (operations.length !== 1 || operations[0].operation !== spec.operation) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: "Invalid selection: it must be a single selection set, e.g. '{ id name }'.",
+          },
+        ],
+      };
+    }
+    return executeOperation(upstream, session, query, parsedQuery, fieldVariables(liveSpec, args), {}, trace);
+  })));
+}
+
+function fieldSignature(upstream: Upstream, spec: FieldToolSpec): string {
+  const { field } = spec;
+  return JSON.stringify([
+    upstream.config.name,
+    String(field.type),
+    field.description,
+    field.args.map((arg) => [arg.name, String(arg.type), arg.description, arg.defaultValue]),
+  ]);
+}
+
+function fieldTools(): GeneratedTool[] {
+  // Generated field operations are not on any allowlist
+  if (!env.FIELD_TOOLS || env.QUERY_GRAPHQL_MODE !== "open") return [];
+  const tools: GeneratedTool[] = [];
+  for (const upstream of upstreams.values()) {
+    if (!upstream.schema) continue;
+    const specs = fieldToolSpecs(upstream.schema, {
+      include: env.FIELD_TOOLS_INCLUDE,
+      exclude: env.FIELD_TOOLS_EXCLUDE,
+      // The default endpoint's tools keep short names
+      prefix: upstream === defaultUpstream ? undefined : upstream.config.name,
+      allowMutations: upstream.config.allowMutations,
+    });
+    for (const spec of specs) {
+      tools.push({
+        name: spec.name,
+        upstream,
+        mutation: spec.operation === "mutation",
+        signature: fieldSignature(upstream, spec),
+        register: (server, session) => registerFieldTool(server, session, upstream, spec),
+      });
+    }
+  }
+  return tools;
+}
+
+function registerOperationTool(server: McpServer, session: SessionContext, upstream: Upstream, op: PersistedOperation, name: string): RegisteredTool {
+  const endpointNote = upstreams.size > 1 ? ` on the '${upstream.config.name}' API` : "";
+  const description = op.description ?? `Run the persisted ${op.operation} ${op.name}${endpointNote}.`;
+  const parsedQuery = parse(op.document);
+  const variables = operationVariables(upstream.schema!, op);
+
+  return server.tool(name, description, inputArgumentsShape(variables), measured(name, audited(session, name, async (args, trace) => {
+    console.log(`[Server] Handling tool call: ${name} (persisted operation ${op.hash.slice(0, 12)})`);
+    const limited = admitToolCall(session, name);
+    if (limited) return limited;
+    const provided = Object.fromEntries(
+      variables.filter((v) => args[v.name] !== undefined).map((v) => [v.name, args[v.name]]),
+    );
+    return executeOperation(upstream, session, op.document, parsedQuery, provided, {}, trace);
+  })));
+}
+
+function operationTools(): GeneratedTool[] {
+  const tools: GeneratedTool[] = [];
+  for (const upstream of upstreams.values()) {
+    for (const op of upstream.operations) {
+      const name = upstream === defaultUpstream ? op.name : `${upstream.config.name}-${op.name}`;
+      tools.push({
+        name,
+        upstream,
+        mutation: op.operation === "mutation",
+        // Variable input types come from the schema, so a new schema re-registers the tool
+        signature: JSON.stringify([upstream.config.name, op.hash, op.description, upstream.schemaHash]),
+        register: (server, session) => registerOperationTool(server, session, upstream, op, name),
+      });
+    }
+  }
+  return tools;
+}
+
+// Every registration change notifies the client, so only changed tools are replaced
+function syncGeneratedTools(server: McpServer, registry: GeneratedToolRegistry) {
+  const wanted = new Set<string>();
+  const { session } = registry;
+  for (const generated of [...operationTools(), ...fieldTools()]) {
+    // Tools outside the session's API key scopes are not offered at all
+    if (!canCallTool(session, generated.name) || !canReach(session, generated.upstream)) continue;
+    if (generated.mutation && session.apiKey && !session.apiKey.allowMutations) continue;
+    if (wanted.has(generated.name)) {
+      console.warn(`[Server] Skipping duplicate generated tool '${generated.name}'`);
+      continue;
+    }
+    wanted.add(generated.name);
+    const existing = registry.tools.get(generated.name);
+    if (existing?.signature === generated.signature) continue;
+    existing?.tool.remove();
+    try {
+      registry.tools.set(generated.name, { tool: generated.register(server, registry.session), signature: generated.signature });
     } catch (error: any) {
-        console.error("!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!");
-        console.error("[RAG] FATAL: Failed to initialize vector store:", error.message);
-        console.error("!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!");
-        // Depending on criticality, you might want to exit
-        // process.exit(1);
+      // e.g. a field named "graphql" would collide with query-graphql
+      registry.tools.delete(generated.name);
+      console.warn(`[Server] Could not register tool '${generated.name}': ${error.message}`);
+    }
+  }
+  for (const [name, { tool }] of registry.tools) {
+    if (wanted.has(name)) continue;
+    tool.remove();
+    registry.tools.delete(name);
+  }
+}
+
+function syncAllGeneratedTools() {
+    for (const [server, registry] of generatedToolRegistries) {
+        syncGeneratedTools(server, registry);
     }
 }
 
 /* ---------------------------------------------------------------------------
  * 1.  Build the MCP server instance
  * ------------------------------------------------------------------------- */
-async function buildMcpServer(): Promise<McpServer> {
+async function buildMcpServer(session: SessionContext): Promise<McpServer> {
   console.log("[Server] Building new McpServer instance for a connection");
   const version = await getVersion();
   const server = new McpServer({
     name: env.NAME,
     version: version,
-    description: `GraphQL MCP server for ${env.ENDPOINT}`,
+    description: `GraphQL MCP server for ${upstreamConfigs.map((u) => u.endpoint).join(", ")}`,
+  }, {
+    // Subscription events are streamed as log notifications
+    capabilities: env.SUBSCRIPTIONS ? { logging: {} } : {},
   });
 
-  // Remove the on-demand graphql-schema resource, rely on RAG store
-  // server.resource("graphql-schema", ...);
+  mcpServers.add(server);
+  server.server.onclose = () => {
+    mcpServers.delete(server);
+    generatedToolRegistries.delete(server);
+  };
+
+  registerSchemaResources(server, session);
+
+  const registry: GeneratedToolRegistry = { session, tools: new Map() };
+  generatedToolRegistries.set(server, registry);
+  syncGeneratedTools(server, registry);
+
+  const tools: Record<string, RegisteredTool> = {};
 
   // ── Tool: search-schema (Formerly introspect-schema, uses RAG) ──────────
-  server.tool(
+  tools["search-schema"] = server.tool(
     "search-schema",
-    "Retrieve relevant parts of the GraphQL schema using semantic search. Ask specific questions about types, fields, queries, or mutations.",
+    "Retrieve relevant parts of the GraphQL schema using hybrid keyword and semantic search. Ask specific questions about types, fields, queries, or mutations; exact type and field names always match first.",
     {
       question: z.string().describe("Your question about the GraphQL schema (e.g., 'What fields are on the User type?', 'How to query for organizations?')"),
-      k: z.number().optional().default(5).describe("Number of relevant schema chunks to retrieve (default: 5)"),
+      k: z.number().optional().default(5).describe("Number of relevant schema definitions to retrieve (default: 5)"),
+      kind: z.enum(SEARCH_KINDS).optional().describe("Only return this kind of definition. 'type' means object types; 'query', 'mutation' and 'subscription' mean root fields of that operation."),
+      includeDeprecated: z.boolean().optional().default(true).describe("Include deprecated fields (default: true)"),
+      endpoint: endpointArgument,
     },
-    async ({ question, k }) => {
-      console.log(`[Server] Handling tool call: search-schema with query: "${question}" (k=${k})`);
+    measured("search-schema", async ({ question, k, kind, includeDeprecated, endpoint }) => {
+      console.log(`[Server] Handling tool call: search-schema with query: "${question}" (k=${k}, kind=${kind ?? "any"}, includeDeprecated=${includeDeprecated}, endpoint=${endpoint ?? "default"})`);
+      const limited = admitToolCall(session, "search-schema");
+      if (limited) return limited;
       try {
-        const searchResults = await semanticSearch(question, k);
+        const upstream = resolveUpstream(endpoint, session);
+        const searchResults = await searchSchema(question, {
+          k,
+          kind,
+          includeDeprecated,
+          collection: upstream.config.collection,
+        });
         if (searchResults.length === 0) {
           return {
             content: [
@@ -159,8 +1353,10 @@ async function buildMcpServer(): Promise<McpServer> {
             ],
           };
         }
-        // Combine results into a single text block
-        const combinedText = searchResults.join("\n\n---\n\n");
+        // Combine results into a single text block, labelling where each hit comes from
+        const combinedText = searchResults
+          .map((hit) => `# ${describeHit(hit)}\n${hit.text}`)
+          .join("\n\n---\n\n");
         return {
           content: [
             {
@@ -181,19 +1377,127 @@ async function buildMcpServer(): Promise<McpServer> {
           ],
         };
       }
+    }),
+  );
+
+  // ── Tool: describe-type ──────────────────────────────────────────────────
+  tools["describe-type"] = server.tool(
+    "describe-type",
+    "Describe one GraphQL type exactly: its fields with arguments and types, interfaces, possible types, enum values, input fields and descriptions. Use this when you know the type name.",
+    {
+      name: z.string().describe("Exact type name, e.g. 'User'"),
+      endpoint: endpointArgument,
     },
+    measured("describe-type", async ({ name, endpoint }) => {
+      console.log(`[Server] Handling tool call: describe-type for '${name}' (endpoint=${endpoint ?? "default"})`);
+      const limited = admitToolCall(session, "describe-type");
+      if (limited) return limited;
+      try {
+        const description = describeType(loadedSchema(resolveUpstream(endpoint, session)), name);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(description, null, 2),
+            },
+          ],
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+    }),
   );
 
-  // ── Tool: query-graphql (Unchanged) ──────────────────────────────────────
-  server.tool(
+  // ── Tool: find-path ──────────────────────────────────────────────────────
+  tools["find-path"] = server.tool(
+    "find-path",
+    "Find the shortest ways to reach a type from the root Query (or Mutation) fields. Returns each field path with a ready-to-run query skeleton whose required arguments are declared as variables.",
+    {
+      type: z.string().describe("Exact name of the type to reach, e.g. 'Invoice'"),
+      operation: z.enum(["query", "mutation"]).optional().default("query").describe("Root type to start from (default: query)"),
+      maxPaths: z.number().int().positive().max(10).optional().default(3).describe("Maximum number of paths to return (default: 3)"),
+      endpoint: endpointArgument,
+    },
+    measured("find-path", async ({ type, operation, maxPaths, endpoint }) => {
+      console.log(`[Server] Handling tool call: find-path to '${type}' from ${operation} (endpoint=${endpoint ?? "default"})`);
+      const limited = admitToolCall(session, "find-path");
+      if (limited) return limited;
+      try {
+        const paths = findPaths(loadedSchema(resolveUpstream(endpoint, session)), type, { operation, maxPaths });
+        if (paths.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No path from the ${operation} root fields reaches '${type}'.`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(paths, null, 2),
+            },
+          ],
+        };
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+    }),
+  );
+
+  // ── Tool: query-graphql ──────────────────────────────────────────────────
+  tools["query-graphql"] = server.tool(
     "query-graphql",
-    "Query a GraphQL endpoint with the given query and optional variables.",
+    env.SUBSCRIPTIONS
+      ? "Query a GraphQL endpoint with the given query and optional variables. Subscriptions collect events until they complete or a limit is reached; each event is also sent as a log notification as it arrives."
+      : "Query a GraphQL endpoint with the given query and optional variables.",
     {
       query: z.string().describe("The GraphQL query or mutation string."),
       variables: z.string().optional().describe("JSON string containing query variables."),
+      endpoint: endpointArgument,
+      select: z.string().optional().describe("Projection applied to the JSON response, e.g. 'data.users[*].{id,name}' or '$..email'. Supports .key, [n], [start:end], [*], ..key and {a,b}."),
+      maxTokens: z.number().int().positive().optional().describe(`Approximate size budget for the output. Larger results are truncated with a cursor for read-result.${env.RESPONSE_MAX_TOKENS ? ` (default: ${env.RESPONSE_MAX_TOKENS})` : ""}`),
+      compact: z.boolean().optional().describe(`Return unindented JSON (default: ${env.RESPONSE_COMPACT})`),
+      ...subscriptionArguments,
     },
-    async ({ query, variables }) => {
-      console.log(`[Server] Handling tool call: query-graphql for endpoint: ${env.ENDPOINT}`);
+    measured("query-graphql", audited(session, "query-graphql", async ({ query, variables, endpoint, select, maxTokens, compact, maxEvents, duration }, trace, extra) => {
+      let upstream: Upstream;
+      try {
+        upstream = resolveUpstream(endpoint, session);
+      } catch (error: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+      const { config } = upstream;
+      console.log(`[Server] Handling tool call: query-graphql for endpoint '${config.name}': ${config.endpoint}`);
+      const limited = admitToolCall(session, "query-graphql");
+      if (limited) return limited;
       // Parse variables if provided
       let parsedVariables: Record<string, any> | undefined;
       if (variables) {
@@ -214,21 +1518,24 @@ async function buildMcpServer(): Promise<McpServer> {
       }
 
       // Validate query and check for mutations if disallowed
+      let parsedQuery: DocumentNode;
       try {
-        const parsedQuery = parse(query);
+        parsedQuery = parse(query);
         const isMutation = parsedQuery.definitions.some(
           (def) =>
             def.kind === "OperationDefinition" && def.operation === "mutation",
         );
 
-        if (isMutation && !env.ALLOW_MUTATIONS) {
-          console.warn("[Server] Mutation detected but not allowed by configuration.");
+        if (isMutation && !config.allowMutations) {
+          console.warn(`[Server] Mutation detected but not allowed for endpoint '${config.name}'.`);
           return {
             isError: true,
             content: [
               {
                 type: "text",
-                text: "Mutations are not allowed. Set ALLOW_MUTATIONS=true to enable them.",
+                text: upstreams.size > 1
+                  ? `Mutations are not allowed on endpoint '${config.name}'. Set "allowMutations": true for it in UPSTREAMS_CONFIG to enable them.`
+                  : "Mutations are not allowed. Set ALLOW_MUTATIONS=true to enable them.",
               },
             ],
           };
@@ -246,100 +1553,279 @@ async function buildMcpServer(): Promise<McpServer> {
         };
       }
 
-      // Execute the GraphQL query
-      try {
-        console.log(`[Server] Executing GraphQL query against ${env.ENDPOINT}`);
-        const response = await fetch(env.ENDPOINT, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...env.HEADERS,
-          },
-          body: JSON.stringify({
-            query,
-            variables: parsedVariables, // Use parsed variables
-          }),
-        });
-
-        const responseText = await response.text();
-
-        if (!response.ok) {
-          console.error(`[Server] GraphQL request failed: ${response.status} ${response.statusText}`, responseText);
+      // In allowlist mode only documents matching a persisted operation may run
+      if (env.QUERY_GRAPHQL_MODE === "allowlist") {
+        const hash = operationHash(parsedQuery);
+        if (!hash || !upstream.operations.some((op) => op.hash === hash)) {
+          console.warn(`[Server] Rejected operation that is not on the allowlist of '${config.name}'.`);
+          const names = upstream.operations.map((op) => op.name).join(", ");
           return {
             isError: true,
             content: [
               {
                 type: "text",
-                text: `GraphQL request failed: ${response.status} ${response.statusText}\n${responseText}`,
+                text: `This server only runs allowlisted operations, and this document is not one of them. Use the persisted operation tools instead${names ? `: ${names}` : ""}.`,
               },
             ],
           };
         }
+      }
 
-        // Harden JSON parsing
-        let data;
+      if (select) {
         try {
-          data = JSON.parse(responseText);
-        } catch (parseError: any) {
-          console.error("[Server] Failed to parse GraphQL JSON response:", parseError, responseText);
+          checkProjection(select);
+        } catch (error: any) {
           return {
             isError: true,
             content: [
               {
                 type: "text",
-                text: `Failed to parse GraphQL JSON response: ${parseError.message}\nResponse Body Hint:\n${responseText.substring(0, 200)}...`,
+                text: error.message,
               },
             ],
           };
         }
+      }
 
-        // Check for GraphQL-level errors in the now successfully parsed response
-        if (data.errors && data.errors.length > 0) {
-          console.warn("[Server] GraphQL response contained errors:", data.errors);
-          return {
-            // isError: true, // Consider if GraphQL errors should halt the agent
-            content: [
-              {
-                type: "text",
-                text: `GraphQL query executed, but the response contains errors: ${JSON.stringify(data, null, 2)}`,
-              },
-            ],
-          };
-        }
+      return executeOperation(upstream, session, query, parsedQuery, parsedVariables, { select, maxTokens, compact }, trace, {
+        maxEvents,
+        durationSeconds: duration,
+        extra,
+      });
+    })),
+  );
+  if (env.QUERY_GRAPHQL_MODE === "disabled") {
+    // Only persisted operations can run
+    tools["query-graphql"].remove();
+    delete tools["query-graphql"];
+  }
 
-        // Success
-        console.log("[Server] GraphQL query successful.");
+  // ── Tool: read-result ────────────────────────────────────────────────────
+  tools["read-result"] = server.tool(
+    "read-result",
+    "Read the next slice of a truncated query result without running the query again. Pass the cursor from the truncation note.",
+    {
+      cursor: z.string().describe("Cursor from a '[Truncated ...]' note"),
+      maxTokens: z.number().int().positive().optional().describe("Approximate size budget for this slice (default: same as the original call)"),
+    },
+    measured("read-result", async ({ cursor, maxTokens }) => {
+      console.log("[Server] Handling tool call: read-result");
+      const limited = admitToolCall(session, "read-result");
+      if (limited) return limited;
+      try {
+        return shapedContent(readResult(cursor, session, maxTokens));
+      } catch (error: any) {
         return {
+          isError: true,
           content: [
             {
               type: "text",
-              text: JSON.stringify(data, null, 2),
+              text: error.message,
             },
           ],
         };
-      } catch (fetchError: any) {
-        console.error("[Server] Failed to execute GraphQL query (network/fetch issue?):", fetchError);
+      }
+    }),
+  );
+
+  // ── Tool: refresh-schema ─────────────────────────────────────────────────
+  tools["refresh-schema"] = server.tool(
+    "refresh-schema",
+    "Re-load the GraphQL schema from its source and re-index it in the background. Use this when the upstream API has changed.",
+    {
+      endpoint: z.string().optional().describe("Name of the GraphQL API to refresh. Defaults to all of them."),
+    },
+    measured("refresh-schema", async ({ endpoint }) => {
+      console.log(`[Server] Handling tool call: refresh-schema (endpoint=${endpoint ?? "all"})`);
+      const limited = admitToolCall(session, "refresh-schema");
+      if (limited) return limited;
+      let targets: Upstream[];
+      try {
+        targets = endpoint
+          ? [resolveUpstream(endpoint, session)]
+          : [...upstreams.values()].filter((upstream) => canReach(session, upstream));
+      } catch (error: any) {
         return {
           isError: true,
           content: [
             {
               type: "text",
-              text: `Failed to execute GraphQL query: ${fetchError.message}`,
+              text: error.message,
             },
           ],
         };
       }
-    },
+      targets.forEach((upstream) => triggerSchemaRefresh(upstream, "refresh-schema tool"));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Schema refresh started for ${targets.map((u) => `'${u.config.name}'`).join(", ")}. The search index is swapped in once re-indexing completes.`,
+          },
+        ],
+      };
+    }),
+  );
+
+  // ── Tool: list-endpoints ─────────────────────────────────────────────────
+  tools["list-endpoints"] = server.tool(
+    "list-endpoints",
+    "List the GraphQL APIs this server can reach. Pass a name as the `endpoint` argument of the other tools.",
+    measured("list-endpoints", async () => {
+      console.log("[Server] Handling tool call: list-endpoints");
+      const limited = admitToolCall(session, "list-endpoints");
+      if (limited) return limited;
+      const endpoints = [...upstreams.values()].filter((upstream) => canReach(session, upstream)).map(({ config, schema }) => ({
+        name: config.name,
+        description: config.description,
+        url: config.endpoint,
+        default: config.name === defaultUpstream.config.name,
+        allowMutations: config.allowMutations,
+        schemaLoaded: schema !== null,
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(endpoints, null, 2),
+          },
+        ],
+      };
+    }),
   );
 
+  // Tools outside the session's API key scopes are not offered at all
+  for (const [name, tool] of Object.entries(tools)) {
+    if (!canCallTool(session, name)) tool.remove();
+  }
+
   return server;
 }
 
+/* ---------------------------------------------------------------------------
+ * Schema resources
+ *
+ * The default endpoint is served at graphql://schema, graphql://type/{name}
+ * and graphql://root/{operation}. With several endpoints, each one is also
+ * reachable under graphql://endpoint/{endpoint}/...
+ * ------------------------------------------------------------------------- */
+function sdlContents(uri: URL, text: string) {
+  return { contents: [{ uri: uri.href, mimeType: SDL_MIME_TYPE, text }] };
+}
+
+function registerSchemaResources(server: McpServer, session: SessionContext) {
+  // Endpoints outside the session's API key scopes are neither listed nor readable
+  const reachable = () => [...upstreams.values()].filter((upstream) => canReach(session, upstream));
+  const defaultSchema = () => (canReach(session, defaultUpstream) ? defaultUpstream.schema : null);
+  const allTypeNames = () =>
+    reachable().flatMap(({ schema }) => (schema ? schemaTypes(schema).map((t) => t.name) : []));
+
+  server.resource(
+    "graphql-schema",
+    "graphql://schema",
+    { description: `Full SDL of the '${defaultUpstream.config.name}' GraphQL API`, mimeType: SDL_MIME_TYPE },
+    async (uri) => sdlContents(uri, printSchema(loadedSchema(resolveUpstream(undefined, session)))),
+  );
+
+  server.resource(
+    "graphql-type",
+    new ResourceTemplate("graphql://type/{name}", {
+      list: async () => ({
+        resources: defaultSchema()
+          ? schemaTypes(defaultSchema()!).map((type) => ({
+              uri: `graphql://type/${type.name}`,
+              name: type.name,
+              description: type.description ?? undefined,
+            }))
+          : [],
+      }),
+      complete: {
+        name: (value) => completeNames(defaultSchema() ? schemaTypes(defaultSchema()!).map((t) => t.name) : [], value),
+      },
+    }),
+    { mimeType: SDL_MIME_TYPE },
+    async (uri, { name }) => sdlContents(uri, printTypeDefinition(loadedSchema(resolveUpstream(undefined, session)), String(name))),
+  );
+
+  server.resource(
+    "graphql-root-fields",
+    new ResourceTemplate("graphql://root/{operation}", {
+      list: async () => ({
+        resources: defaultSchema()
+          ? rootOperations(defaultSchema()!).map((operation) => ({
+              uri: `graphql://root/${operation}`,
+              name: `${operation} fields`,
+            }))
+          : [],
+      }),
+      complete: {
+        operation: (value) => completeNames(ROOT_OPERATIONS, value),
+      },
+    }),
+    { description: "Root fields available for query, mutation or subscription operations", mimeType: SDL_MIME_TYPE },
+    async (uri, { operation }) => sdlContents(uri, printRootFields(loadedSchema(resolveUpstream(undefined, session)), String(operation))),
+  );
+
+  if (upstreams.size < 2) return;
+
+  // Endpoint-qualified views; the default endpoint is already listed above
+  const others = () => reachable().filter((upstream) => upstream !== defaultUpstream);
+  const completeEndpoint = (value: string) => completeNames(reachable().map((u) => u.config.name), value);
+
+  server.resource(
+    "graphql-endpoint-schema",
+    new ResourceTemplate("graphql://endpoint/{endpoint}/schema", {
+      list: async () => ({
+        resources: others().map(({ config }) => ({
+          uri: `graphql://endpoint/${config.name}/schema`,
+          name: `${config.name} schema`,
+        })),
+      }),
+      complete: { endpoint: completeEndpoint },
+    }),
+    { description: "Full SDL of one GraphQL API", mimeType: SDL_MIME_TYPE },
+    async (uri, { endpoint }) => sdlContents(uri, printSchema(loadedSchema(resolveUpstream(String(endpoint), session)))),
+  );
+
+  server.resource(
+    "graphql-endpoint-type",
+    new ResourceTemplate("graphql://endpoint/{endpoint}/type/{name}", {
+      list: async () => ({
+        resources: others().flatMap(({ config, schema }) =>
+          schema
+            ? schemaTypes(schema).map((type) => ({
+                uri: `graphql://endpoint/${config.name}/type/${type.name}`,
+                name: `${config.name}: ${type.name}`,
+                description: type.description ?? undefined,
+              }))
+            : [],
+        ),
+      }),
+      complete: { endpoint: completeEndpoint, name: (value) => completeNames(allTypeNames(), value) },
+    }),
+    { mimeType: SDL_MIME_TYPE },
+    async (uri, { endpoint, name }) =>
+      sdlContents(uri, printTypeDefinition(loadedSchema(resolveUpstream(String(endpoint), session)), String(name))),
+  );
+
+  server.resource(
+    "graphql-endpoint-root-fields",
+    new ResourceTemplate("graphql://endpoint/{endpoint}/root/{operation}", {
+      list: undefined,
+      complete: { endpoint: completeEndpoint, operation: (value) => completeNames(ROOT_OPERATIONS, value) },
+    }),
+    { description: "Root fields of one GraphQL API for query, mutation or subscription operations", mimeType: SDL_MIME_TYPE },
+    async (uri, { endpoint, operation }) =>
+      sdlContents(uri, printRootFields(loadedSchema(resolveUpstream(String(endpoint), session)), String(operation))),
+  );
+}
+
 /* ---------------------------------------------------------------------------
  * 2.  Transport registries – keep track of active sessions
  * ------------------------------------------------------------------------- */
 const streamableTransports: Record<string, StreamableHTTPServerTransport> = {};
 const sseTransports: Record<string, SSEServerTransport> = {};
+const sessionContexts: Record<string, SessionContext> = {};
 
 /* ---------------------------------------------------------------------------
  * 3.  Express wiring
@@ -350,6 +1836,12 @@ app.use(express.json());
 // Apply API key authentication middleware to MCP endpoints
 app.use("/mcp", authenticateApiKey);
 app.use("/messages", authenticateApiKey); // Also protect the SSE message endpoint
+app.use("/sse", authenticateApiKey); // Sessions are scoped to the key that opened them
+app.use("/admin", requireApiKeys, authenticateApiKey);
+app.use("/mcp", rateLimitRequests);
+app.use("/sse", rateLimitRequests);
+app.use("/messages", rateLimitRequests);
+app.use("/admin", rateLimitRequests);
 
 /* ---------- 3-A: modern Streamable HTTP endpoint -------------------------- */
 app.all("/mcp", async (req: Request, res: Response) => {
@@ -357,23 +1849,34 @@ app.all("/mcp", async (req: Request, res: Response) => {
   let transport: StreamableHTTPServerTransport;
 
   if (sessionId && streamableTransports[sessionId]) {
+    if (!sessionKeyMatches(sessionContexts[sessionId], res)) {
+      console.warn(`[Server] Rejected request for session ${sessionId} made with another API key`);
+      res.status(403).send("Forbidden: Session belongs to another API key");
+      return;
+    }
     console.log(`[Server] Reusing Streamable HTTP transport for session: ${sessionId}`);
     transport = streamableTransports[sessionId];
+    captureSessionHeaders(req, sessionContexts[sessionId]);
   } else if (!sessionId && isInitializeRequest(req.body)) {
     console.log("[Server] Creating new Streamable HTTP transport");
     let sessionTimeoutHandle: NodeJS.Timeout | null = null;
+    const session = createSessionContext(req, res);
 
     transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => randomUUID(),
       onsessioninitialized: id => {
           streamableTransports[id] = transport;
+          session.id = id;
+          sessionContexts[id] = session;
           console.log(`[Server] Streamable HTTP session initialized: ${id}`);
 
           const timeoutMs = 1000 * 60 * 60; // 1 hour
           console.log(`[Server] Setting idle timeout for session ${id}: ${timeoutMs / 1000 / 60} minutes`);
           sessionTimeoutHandle = setTimeout(() => {
               console.warn(`[Server] Cleaning up idle Streamable HTTP session: ${id}`);
+              sessionTimeouts.inc();
               delete streamableTransports[id];
+              delete sessionContexts[id];
               try {
                   transport.close();
               } catch (e) { /* Ignore errors if already closed */ }
@@ -389,10 +1892,11 @@ app.all("/mcp", async (req: Request, res: Response) => {
               console.log(`[Server] Cleared idle timeout for session ${transport.sessionId}`);
           }
           delete streamableTransports[transport.sessionId];
+          delete sessionContexts[transport.sessionId];
       }
     };
 
-    const server = await buildMcpServer();
+    const server = await buildMcpServer(session);
     await server.connect(transport);
   } else {
     console.warn("[Server] Invalid Streamable HTTP handshake request");
@@ -411,15 +1915,18 @@ app.all("/mcp", async (req: Request, res: Response) => {
 app.get("/sse", async (req: Request, res: Response) => {
   console.log("[Server] Received request for SSE connection");
   const transport = new SSEServerTransport("/messages", res);
+  const session = createSessionContext(req, res, transport.sessionId);
   sseTransports[transport.sessionId] = transport;
+  sessionContexts[transport.sessionId] = session;
   console.log(`[Server] SSE transport created with sessionId: ${transport.sessionId}`);
 
   res.on("close", () => {
     console.log(`[Server] SSE connection closed for sessionId: ${transport.sessionId}`);
     delete sseTransports[transport.sessionId];
+    delete sessionContexts[transport.sessionId];
   });
 
-  const server = await buildMcpServer();
+  const server = await buildMcpServer(session);
   await server.connect(transport);
 });
 
@@ -434,52 +1941,201 @@ app.post("/messages", async (req: Request, res: Response) => {
     return;
   }
 
+  if (!sessionKeyMatches(sessionContexts[sessionId], res)) {
+    console.warn(`[Server] Rejected message for SSE session ${sessionId} made with another API key`);
+    res.status(403).send("Forbidden: Session belongs to another API key");
+    return;
+  }
+
+  captureSessionHeaders(req, sessionContexts[sessionId]);
   await transport.handlePostMessage(req, res, req.body);
 });
 
+/* ---------- 3-C: admin endpoints ---------------------------------------- */
+app.post("/admin/refresh-schema", (req: Request, res: Response) => {
+  const endpoint = req.query.endpoint as string | undefined;
+  console.log(`[Server] Received POST /admin/refresh-schema (endpoint=${endpoint ?? "all"})`);
+  if (endpoint && !upstreams.has(endpoint)) {
+    res.status(404).json({ error: `Unknown endpoint '${endpoint}'` });
+    return;
+  }
+  const apiKey: ApiKey | undefined = res.locals.apiKey;
+  if (apiKey && !toolAllowed(apiKey, "refresh-schema")) {
+    res.status(403).json({ error: `API key '${apiKey.name}' may not refresh schemas` });
+    return;
+  }
+  if (apiKey && endpoint && !endpointAllowed(apiKey, endpoint)) {
+    res.status(403).json({ error: `API key '${apiKey.name}' may not use endpoint '${endpoint}'` });
+    return;
+  }
+  const targets = (endpoint ? [upstreams.get(endpoint)!] : [...upstreams.values()])
+    .filter(({ config }) => !apiKey || endpointAllowed(apiKey, config.name));
+  targets.forEach((upstream) => triggerSchemaRefresh(upstream, "admin endpoint"));
+  res.status(202).json({ status: "started", endpoints: targets.map((u) => u.config.name) });
+});
+
+/* ---------- 3-D: health, readiness and metrics -------------------------- */
+// Liveness: the process is up and serving requests
+app.get("/healthz", (_req: Request, res: Response) => {
+  res.json({ status: "ok" });
+});
+
+// Readiness: every endpoint has a schema and a populated search index
+app.get("/readyz", (_req: Request, res: Response) => {
+  const endpoints = [...upstreams.values()].map(({ config, schema, schemaHash, reloader, breaker }) => {
+    const indexed = indexedDocuments(config.collection);
+    return {
+      name: config.name,
+      schemaLoaded: schema !== null,
+      indexPopulated: indexed > 0,
+      indexedDocuments: indexed,
+      schemaHash,
+      lastRefresh: reloader.lastReloadAt?.toISOString() ?? null,
+      lastError: reloader.lastError,
+      circuit: breaker?.state ?? "disabled",
+    };
+  });
+  const ready = endpoints.every((endpoint) => endpoint.schemaLoaded && endpoint.indexPopulated);
+  res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "not ready", endpoints });
+});
+
+if (env.METRICS) {
+  app.get("/metrics", (_req: Request, res: Response) => {
+    res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+    res.send(metrics.render());
+  });
+}
+
 /* ---------------------------------------------------------------------------
  * 4.  Startup
  * ------------------------------------------------------------------------- */
 const PORT = Number(process.env.PORT ?? 3000);
 let serverInstance: ReturnType<typeof app.listen> | null = null;
+let stdioServer: McpServer | null = null;
+const stopOperationWatchers: (() => void)[] = [];
 
-(async () => {
-    await initializeVectorStore();
-
-    serverInstance = app.listen(PORT, () => {
-      console.log(`MCP GraphQL server '${env.NAME}' targeting endpoint ${env.ENDPOINT} listening on http://localhost:${PORT}`);
-      console.log(`Allow mutations: ${env.ALLOW_MUTATIONS}`);
-      if (env.MCP_API_KEY) {
-          console.log(`API Key Authentication: ENABLED (expecting X-API-Key header)`);
+function logConfiguration() {
+    console.log(`query-graphql mode: ${env.QUERY_GRAPHQL_MODE}`);
+    if (env.FIELD_TOOLS && env.QUERY_GRAPHQL_MODE !== "open") {
+        console.warn("FIELD_TOOLS is ignored because QUERY_GRAPHQL_MODE is not 'open'.");
+    }
+    if (env.RATE_LIMITS.requests || env.RATE_LIMITS.tools) {
+        console.log(`Rate limits: ${JSON.stringify(env.RATE_LIMITS)}`);
+    }
+    if (env.MAX_CONCURRENT_UPSTREAM > 0) {
+        console.log(`Concurrent upstream requests: at most ${env.MAX_CONCURRENT_UPSTREAM}`);
+    }
+    if (env.AUDIT_LOG) {
+        console.log(`Audit log: ${path.resolve(env.AUDIT_LOG)} (rotates at ${env.AUDIT_LOG_MAX_BYTES} bytes, keeps ${env.AUDIT_LOG_MAX_FILES})`);
+    }
+    if (env.RESULT_CACHE) {
+        console.log(`Result cache: ENABLED (TTL ${env.RESULT_CACHE_TTL}s, up to ${env.RESULT_CACHE_MAX_ENTRIES} entries per endpoint)`);
+    }
+    if (env.TRANSPORT === "stdio") {
+        // The client launched this process, so there is nobody else to authenticate
+        console.log("API Key Authentication: not used over stdio");
+    } else if (apiKeys.enabled) {
+        console.log(`API Key Authentication: ENABLED (expecting X-API-Key header)`);
+        if (env.API_KEYS_FILE) console.log(`  API key file: ${env.API_KEYS_FILE}`);
+    } else {
+        console.log("API Key Authentication: DISABLED");
+    }
+    for (const { config } of upstreams.values()) {
+      console.log(`Endpoint '${config.name}': ${config.endpoint}`);
+      console.log(`  Allow mutations: ${config.allowMutations}`);
+      if (config.schema && isSchemaUrl(config.schema)) {
+        console.log(`  RAG Schema Source: URL (${config.schema})`);
+      } else if (config.schema) {
+        console.log(`  RAG Schema Source: Local ${isSchemaFile(config.schema) ? "file" : "files"} (${config.schema})`);
       } else {
-          console.log("API Key Authentication: DISABLED");
+        console.log(`  RAG Schema Source: Remote endpoint, ${config.endpointSchema} (${config.endpoint})`);
       }
-      if (env.SCHEMA) {
-        console.log(`RAG Schema Source: Local file (${env.SCHEMA})`);
-      } else {
-        console.log(`RAG Schema Source: Remote endpoint (${env.ENDPOINT})`);
+      if (hasVisibilityRules(config.visibility)) {
+        console.log(`  Schema visibility: ${JSON.stringify(config.visibility)}`);
       }
-      if (Object.keys(env.HEADERS).length > 0) {
-        console.log(`Using custom headers for GraphQL endpoint: ${JSON.stringify(env.HEADERS)}`);
+      console.log(`  RAG Collection: ${config.collection}`);
+      if (config.operationsDir) {
+        console.log(`  Persisted operations: ${config.operationsDir}`);
       }
-    });
+      if (Object.keys(config.headers).length > 0) {
+        // Header values often hold credentials, so only their names are logged
+        console.log(`  Using custom headers: ${Object.keys(config.headers).join(", ")}`);
+      }
+      if (config.headerPolicy.forward.length > 0) {
+        console.log(`  Forwarding caller headers: ${config.headerPolicy.forward.map(({ from, to }) => from === to ? from : `${from} -> ${to}`).join(", ")}`);
+      }
+    }
+}
 
-    serverInstance.on('error', (error) => {
-      console.error("Server listening error:", error);
-      process.exit(1);
-    });
+// A single session for the client that launched this process
+async function connectStdio() {
+    const session: SessionContext = { id: randomUUID(), keyName: "stdio", forwardedHeaders: {} };
+    stdioServer = await buildMcpServer(session);
+    // The client ends the session by closing our stdin
+    process.stdin.on("end", () => shutdown("stdin closed"));
+    await stdioServer.connect(new StdioServerTransport());
+    console.log(`MCP GraphQL server '${env.NAME}' serving ${upstreams.size} endpoint(s) over stdio`);
+    logConfiguration();
+}
+
+(async () => {
+    // Parsed first, so they are validated as soon as each schema loads
+    await Promise.all([...upstreams.values()].map(reloadOperations));
+    await initializeVectorStore();
+
+    if (env.TRANSPORT === "stdio") {
+      await connectStdio();
+    } else {
+      serverInstance = app.listen(PORT, () => {
+        console.log(`MCP GraphQL server '${env.NAME}' serving ${upstreams.size} endpoint(s) listening on http://localhost:${PORT}`);
+        console.log(`Health: /healthz, readiness: /readyz${env.METRICS ? ", metrics: /metrics" : ""}`);
+        logConfiguration();
+      });
+
+      serverInstance.on('error', (error) => {
+        console.error("Server listening error:", error);
+        process.exit(1);
+      });
+    }
+
+    upstreams.forEach((upstream) => upstream.reloader.start());
+    apiKeys.start();
+    for (const upstream of upstreams.values()) {
+      const dir = upstream.config.operationsDir;
+      if (!dir) continue;
+      stopOperationWatchers.push(watchOperations(dir, () => {
+        console.log(`[Operations] Change detected in ${dir}, reloading operations for '${upstream.config.name}'`);
+        reloadOperations(upstream).then(syncAllGeneratedTools);
+      }));
+    }
 
 })();
 
 // Graceful Shutdown Handler
-process.on("SIGTERM", () => {
-    console.log("[Server] SIGTERM signal received: closing HTTP server");
+let shuttingDown = false;
+function shutdown(reason: string) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`[Server] ${reason}: shutting down`);
+    upstreams.forEach((upstream) => {
+        upstream.reloader.stop();
+        if (upstream.startupRetry) clearTimeout(upstream.startupRetry);
+    });
+    stopOperationWatchers.forEach((stop) => stop());
+    apiKeys.stop();
+    // Queued audit records must reach the file before exiting
+    const exit = () => (auditLog?.flush() ?? Promise.resolve()).finally(() => process.exit(0));
     if (serverInstance) {
         serverInstance.close(() => {
             console.log("[Server] HTTP server closed");
-            process.exit(0);
+            exit();
         });
+    } else if (stdioServer) {
+        stdioServer.close().finally(exit);
     } else {
         process.exit(1);
     }
-});
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM signal received"));
+process.on("SIGINT", () => shutdown("SIGINT signal received"));
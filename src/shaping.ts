@@ -0,0 +1,378 @@
+import { randomUUID } from "node:crypto";
+
+/* ---------------------------------------------------------------------------
+ * Response shaping
+ *
+ * Keeps large GraphQL results from flooding the model's context: a
+ * JSONPath-style projection, compact JSON, and a token budget. Results over
+ * budget are cut at their largest list (or, failing that, as text) with an
+ * explicit marker, and the full result is kept for a while so the rest can
+ * be read slice by slice with a cursor.
+ * ------------------------------------------------------------------------- */
+
+export interface ShapeOptions {
+  /** Projection such as `$.data.users[*].name` or `data.users[0:10].{id,name}` */
+  select?: string;
+  /** Approximate output budget; 0 or unset means unlimited */
+  maxTokens?: number;
+  compact?: boolean;
+  /** Seconds a truncated result stays readable through `readResult` */
+  cursorTtlSeconds?: number;
+  /** Truncated results kept at once; the oldest is dropped first */
+  maxStoredResults?: number;
+}
+
+export interface Truncation {
+  /** Dotted path of the list that was cut, or null when the text was cut */
+  path: string | null;
+  /** Items (or characters) shown, as [start, end) */
+  shown: [number, number];
+  total: number;
+  /** Items (or characters) left out after this slice */
+  remaining: number;
+  /** Pass to read-result for the next slice; absent on the last slice */
+  cursor?: string;
+}
+
+export interface ShapedResult {
+  text: string;
+  truncation?: Truncation;
+}
+
+// Rough size of a token in JSON text; good enough for a budget
+const CHARS_PER_TOKEN = 4;
+
+/* ---------- projection -------------------------------------------------- */
+
+type Segment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number }
+  | { kind: "wildcard" }
+  | { kind: "descend"; key: string | null }
+  | { kind: "pick"; keys: string[] };
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*/;
+
+function parsePath(path: string): Segment[] {
+  const segments: Segment[] = [];
+  let rest = path.trim().replace(/^\$/, "");
+  const fail = (): never => {
+    throw new Error(`Invalid projection '${path}' near '${rest}'`);
+  };
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if (rest.startsWith("..")) {
+      rest = rest.slice(2);
+      if (rest.startsWith("*")) {
+        segments.push({ kind: "descend", key: null });
+        rest = rest.slice(1);
+      } else if ((match = rest.match(IDENTIFIER))) {
+        segments.push({ kind: "descend", key: match[0] });
+        rest = rest.slice(match[0].length);
+      } else fail();
+    } else if (rest.startsWith(".*") || rest.startsWith("[*]")) {
+      segments.push({ kind: "wildcard" });
+      rest = rest.slice(rest.startsWith(".*") ? 2 : 3);
+    } else if ((match = rest.match(/^\.?\{([^}]*)\}/))) {
+      const keys = match[1].split(",").map((k) => k.trim()).filter(Boolean);
+      if (keys.length === 0) fail();
+      segments.push({ kind: "pick", keys });
+      rest = rest.slice(match[0].length);
+    } else if ((match = rest.match(/^\[\s*(-?\d+)\s*\]/))) {
+      segments.push({ kind: "index", index: Number(match[1]) });
+      rest = rest.slice(match[0].length);
+    } else if ((match = rest.match(/^\[\s*(-?\d*)\s*:\s*(-?\d*)\s*\]/))) {
+      segments.push({
+        kind: "slice",
+        start: match[1] ? Number(match[1]) : undefined,
+        end: match[2] ? Number(match[2]) : undefined,
+      });
+      rest = rest.slice(match[0].length);
+    } else if ((match = rest.match(/^\[\s*(['"])(.*?)\1\s*\]/))) {
+      segments.push({ kind: "key", key: match[2] });
+      rest = rest.slice(match[0].length);
+    } else if ((match = rest.slice(rest.startsWith(".") ? 1 : 0).match(IDENTIFIER)) && (rest.startsWith(".") || segments.length === 0)) {
+      segments.push({ kind: "key", key: match[0] });
+      rest = rest.slice(match[0].length + (rest.startsWith(".") ? 1 : 0));
+    } else fail();
+  }
+  return segments;
+}
+
+function descendants(value: unknown, key: string | null, out: unknown[]) {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (key === null) out.push(item);
+      descendants(item, key, out);
+    }
+  } else if (value && typeof value === "object") {
+    for (const [k, v] of Object.entries(value)) {
+      if (key === null || k === key) out.push(v);
+      descendants(v, key, out);
+    }
+  }
+}
+
+/** Throws if the projection is not valid, so it can be checked before a query runs */
+export function checkProjection(path: string): void {
+  parsePath(path);
+}
+
+/**
+ * Apply a projection. Paths without wildcards, slices or recursive descent
+ * return a single value (null if missing); the others return a list.
+ */
+export function project(value: unknown, path: string): unknown {
+  const segments = parsePath(path);
+  let nodes: unknown[] = [value];
+  let multiple = false;
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      switch (segment.kind) {
+        case "key":
+          if (node && typeof node === "object" && !Array.isArray(node) && segment.key in node) {
+            next.push((node as Record<string, unknown>)[segment.key]);
+          }
+          break;
+        case "index":
+          if (Array.isArray(node)) {
+            const item = node.at(segment.index);
+            if (item !== undefined) next.push(item);
+          }
+          break;
+        case "slice":
+          if (Array.isArray(node)) next.push(...node.slice(segment.start, segment.end));
+          break;
+        case "wildcard":
+          if (Array.isArray(node)) next.push(...node);
+          else if (node && typeof node === "object") next.push(...Object.values(node));
+          break;
+        case "descend":
+          descendants(node, segment.key, next);
+          break;
+        case "pick":
+          if (node && typeof node === "object" && !Array.isArray(node)) {
+            const record = node as Record<string, unknown>;
+            next.push(Object.fromEntries(segment.keys.filter((k) => k in record).map((k) => [k, record[k]])));
+          }
+          break;
+      }
+    }
+    if (segment.kind === "slice" || segment.kind === "wildcard" || segment.kind === "descend") multiple = true;
+    nodes = next;
+  }
+  return multiple ? nodes : nodes[0] ?? null;
+}
+
+/* ---------- truncation -------------------------------------------------- */
+
+type PathKey = string | number;
+
+interface StoredResult {
+  value: unknown;
+  compact: boolean;
+  /** Whoever ran the query; cursors only work for the same owner */
+  owner: object;
+  listPath: PathKey[] | null;
+  /** Budget of the first slice, reused for the next ones */
+  maxTokens: number;
+  expires: number;
+}
+
+const storedResults = new Map<string, StoredResult>();
+
+const DEFAULT_CURSOR_TTL_SECONDS = 600;
+const DEFAULT_MAX_STORED_RESULTS = 100;
+
+function serialize(value: unknown, compact: boolean): string {
+  return compact ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+}
+
+function formatPath(path: PathKey[]): string {
+  if (path.length === 0) return "$";
+  return path.map((key, i) => (typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`)).join("");
+}
+
+// The list whose serialized form is largest is the one worth cutting
+function largestList(value: unknown): PathKey[] | null {
+  let best: { path: PathKey[]; size: number } | null = null;
+  const visit = (node: unknown, path: PathKey[]) => {
+    if (Array.isArray(node)) {
+      const size = JSON.stringify(node).length;
+      if (node.length > 1 && (!best || size > best.size)) best = { path, size };
+      node.forEach((item, i) => visit(item, [...path, i]));
+    } else if (node && typeof node === "object") {
+      for (const [key, child] of Object.entries(node)) visit(child, [...path, key]);
+    }
+  };
+  visit(value, []);
+  return best ? (best as { path: PathKey[] }).path : null;
+}
+
+// Arrays pass too; their indexes are number keys
+function isRecord(value: unknown): value is Record<PathKey, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function getAt(value: unknown, path: PathKey[]): unknown {
+  return path.reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), value);
+}
+
+// Copy along the path only, replacing the value at its end
+function setAt(value: unknown, path: PathKey[], replacement: unknown): unknown {
+  if (path.length === 0) return replacement;
+  const [key, ...rest] = path;
+  if (Array.isArray(value) && typeof key === "number") {
+    const copy: unknown[] = [...value];
+    copy[key] = setAt(copy[key], rest, replacement);
+    return copy;
+  }
+  const copy: Record<PathKey, unknown> = isRecord(value) ? { ...value } : {};
+  copy[key] = setAt(copy[key], rest, replacement);
+  return copy;
+}
+
+function remember(entry: Omit<StoredResult, "expires">, options: ShapeOptions): string {
+  const now = Date.now();
+  const maxStoredResults = options.maxStoredResults ?? DEFAULT_MAX_STORED_RESULTS;
+  for (const [id, stored] of storedResults) {
+    if (stored.expires <= now) storedResults.delete(id);
+  }
+  // Maps iterate in insertion order, so the first entry is the oldest; always keep room for this one
+  while (storedResults.size > 0 && storedResults.size >= maxStoredResults) {
+    storedResults.delete(storedResults.keys().next().value!);
+  }
+  const id = randomUUID();
+  storedResults.set(id, { ...entry, expires: now + (options.cursorTtlSeconds ?? DEFAULT_CURSOR_TTL_SECONDS) * 1000 });
+  return id;
+}
+
+/**
+ * Largest slice of a list, starting at `offset`, whose rendering fits the
+ * budget. `render` receives the items and how many were left out.
+ */
+function fitSlice(
+  items: unknown[],
+  offset: number,
+  budget: number,
+  render: (slice: unknown[], remaining: number) => string,
+): { count: number; text: string } {
+  let low = 0;
+  let high = items.length - offset;
+  let best = { count: 0, text: render([], items.length - offset) };
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const text = render(items.slice(offset, offset + mid), items.length - offset - mid);
+    if (text.length <= budget) {
+      best = { count: mid, text };
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best;
+}
+
+function marker(remaining: number): string {
+  return `… ${remaining} more item${remaining === 1 ? "" : "s"} truncated`;
+}
+
+function textSlice(text: string, offset: number, budget: number, id: string | null): ShapedResult {
+  const end = Math.min(text.length, offset + budget);
+  const remaining = text.length - end;
+  return {
+    text: text.slice(offset, end) + (remaining > 0 ? `\n… [${remaining} more characters truncated]` : ""),
+    truncation: {
+      path: null,
+      shown: [offset, end],
+      total: text.length,
+      remaining,
+      cursor: remaining > 0 && id ? `${id}:${end}` : undefined,
+    },
+  };
+}
+
+/**
+ * Render a result within the token budget. When it does not fit, the full
+ * value is kept so `readResult` can return the following slices.
+ * @param owner - Identity the cursor is bound to, e.g. the MCP session
+ */
+export function shapeResult(value: unknown, options: ShapeOptions, owner: object): ShapedResult {
+  const compact = options.compact ?? false;
+  const text = serialize(value, compact);
+  const budget = (options.maxTokens ?? 0) * CHARS_PER_TOKEN;
+  if (budget <= 0 || text.length <= budget) return { text };
+
+  let listPath = largestList(value);
+  const items = listPath ? (getAt(value, listPath) as unknown[]) : [];
+  const { count, text: fitted } = listPath
+    ? fitSlice(items, 0, budget, (slice, remaining) =>
+        serialize(setAt(value, listPath!, remaining > 0 ? [...slice, marker(remaining)] : slice), compact),
+      )
+    : { count: 0, text: "" };
+  // Not even an empty list fits, so cut the text instead; the cursor then counts characters too
+  if (count === 0) listPath = null;
+
+  const id = remember({ value, compact, owner, listPath, maxTokens: options.maxTokens! }, options);
+  if (!listPath) return textSlice(text, 0, budget, id);
+
+  const remaining = items.length - count;
+  return {
+    text: fitted,
+    truncation: {
+      path: formatPath(listPath),
+      shown: [0, count],
+      total: items.length,
+      remaining,
+      cursor: remaining > 0 ? `${id}:${count}` : undefined,
+    },
+  };
+}
+
+/** The next slice of a result that `shapeResult` truncated */
+export function readResult(cursor: string, owner: object, maxTokens?: number): ShapedResult {
+  const [id, offsetText] = cursor.split(":");
+  const stored = storedResults.get(id);
+  const offset = Number(offsetText);
+  if (!stored || stored.owner !== owner || stored.expires <= Date.now() || !Number.isInteger(offset) || offset < 0) {
+    throw new Error("Unknown or expired cursor. Run the query again.");
+  }
+  const budget = Math.max(maxTokens ?? stored.maxTokens, 1) * CHARS_PER_TOKEN;
+
+  if (!stored.listPath) return textSlice(serialize(stored.value, stored.compact), offset, budget, id);
+
+  const items = getAt(stored.value, stored.listPath) as unknown[];
+  const path = formatPath(stored.listPath);
+  const render = (slice: unknown[], remaining: number) =>
+    serialize({ path, offset, items: remaining > 0 ? [...slice, marker(remaining)] : slice }, stored.compact);
+  let { count, text } = fitSlice(items, offset, budget, render);
+  // Always make progress, even if a single item is over budget
+  if (count === 0 && offset < items.length) {
+    count = 1;
+    text = render(items.slice(offset, offset + 1), items.length - offset - 1);
+  }
+  const remaining = Math.max(items.length - offset - count, 0);
+  return {
+    text,
+    truncation: {
+      path,
+      shown: [offset, offset + count],
+      total: items.length,
+      remaining,
+      cursor: remaining > 0 ? `${id}:${offset + count}` : undefined,
+    },
+  };
+}
+
+/** One-line note telling the agent what was cut and how to get the rest */
+export function describeTruncation(truncation: Truncation): string {
+  const unit = truncation.path === null ? "characters" : "items";
+  const where = truncation.path === null ? "the result text" : `'${truncation.path}'`;
+  const shown = `showing ${unit} ${truncation.shown[0] + 1}–${truncation.shown[1]} of ${truncation.total}`;
+  if (!truncation.cursor) return `[Last slice of ${where}: ${shown}.]`;
+  return `[Truncated ${where}: ${shown}, ${truncation.remaining} more not shown. Call read-result with cursor "${truncation.cursor}" for the next slice.]`;
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "node:crypto";
+import { WebSocket } from "undici";
+
+/* ---------------------------------------------------------------------------
+ * GraphQL subscriptions
+ *
+ * Runs one subscription over the graphql-transport-ws protocol (the one
+ * spoken by the `graphql-ws` library) and collects its events until the
+ * server completes it, the event cap is reached, the time is up or the
+ * caller cancels. Whatever was collected by then is returned.
+ * ------------------------------------------------------------------------- */
+
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = "graphql-transport-ws";
+
+export interface SubscriptionRequest {
+  /** ws:// or wss:// URL of the upstream's subscription endpoint */
+  url: string;
+  /** Sent on the WebSocket handshake and as the `connection_init` payload */
+  headers: Record<string, string>;
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  maxEvents: number;
+  /** Stop collecting this long after the server acknowledged the connection */
+  durationMs: number;
+  /** Fail when the connection is not acknowledged within this long */
+  connectTimeoutMs: number;
+  signal?: AbortSignal;
+  /** Called with every event as it arrives; `index` counts from 0 */
+  onEvent?: (event: unknown, index: number) => void;
+}
+
+/**
+ * Why collecting stopped: the server completed the subscription, the event
+ * cap or the duration was reached, the caller cancelled, or the server
+ * closed the connection after some events had arrived.
+ */
+export type SubscriptionEnd = "complete" | "max-events" | "duration" | "cancelled" | "closed";
+
+export interface SubscriptionResult {
+  /** Execution results (`{ data, errors }`) in arrival order */
+  events: unknown[];
+  end: SubscriptionEnd;
+}
+
+interface Message {
+  type: string;
+  id?: string;
+  payload?: any;
+}
+
+/**
+ * Rejects when the connection fails, is not acknowledged in time, or the
+ * server rejects the subscription before sending any event.
+ */
+export function runSubscription(request: SubscriptionRequest): Promise<SubscriptionResult> {
+  return new Promise((resolve, reject) => {
+    const id = randomUUID();
+    const events: unknown[] = [];
+    const timers: NodeJS.Timeout[] = [];
+    let acknowledged = false;
+    let settled = false;
+
+    const socket = new WebSocket(request.url, { protocols: [GRAPHQL_TRANSPORT_WS_PROTOCOL], headers: request.headers });
+    const send = (message: Message) => socket.send(JSON.stringify(message));
+
+    const finish = (outcome: { end: SubscriptionEnd } | { error: Error }) => {
+      if (settled) return;
+      settled = true;
+      timers.forEach(clearTimeout);
+      request.signal?.removeEventListener("abort", onAbort);
+      if (socket.readyState === WebSocket.OPEN) {
+        // Only the server's own `complete` needs no answer
+        if (acknowledged && !("end" in outcome && outcome.end === "complete")) send({ id, type: "complete" });
+        socket.close(1000, "Normal Closure");
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        socket.close();
+      }
+      if ("error" in outcome) reject(outcome.error);
+      else resolve({ events, end: outcome.end });
+    };
+
+    const onAbort = () => finish({ end: "cancelled" });
+    if (request.signal?.aborted) return finish({ end: "cancelled" });
+    request.signal?.addEventListener("abort", onAbort);
+
+    timers.push(
+      setTimeout(() => {
+        if (!acknowledged) finish({ error: new Error(`The subscription endpoint did not acknowledge the connection within ${request.connectTimeoutMs / 1000}s`) });
+      }, request.connectTimeoutMs),
+    );
+
+    socket.addEventListener("open", () => {
+      send({ type: "connection_init", payload: request.headers });
+    });
+
+    socket.addEventListener("message", (event) => {
+      let message: Message;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return finish({ error: new Error("The subscription endpoint sent a message that is not JSON") });
+      }
+      switch (message.type) {
+        case "connection_ack":
+          acknowledged = true;
+          send({
+            id,
+            type: "subscribe",
+            payload: { query: request.query, variables: request.variables, operationName: request.operationName },
+          });
+          timers.push(setTimeout(() => finish({ end: "duration" }), request.durationMs));
+          break;
+        case "ping":
+          send({ type: "pong" });
+          break;
+        case "next":
+          if (message.id !== id) break;
+          events.push(message.payload);
+          request.onEvent?.(message.payload, events.length - 1);
+          if (events.length >= request.maxEvents) finish({ end: "max-events" });
+          break;
+        case "error": {
+          if (message.id !== id) break;
+          const errors = Array.isArray(message.payload) ? message.payload : [message.payload];
+          finish({ error: new Error(`The subscription was rejected: ${errors.map((error: any) => error?.message ?? JSON.stringify(error)).join("; ")}`) });
+          break;
+        }
+        case "complete":
+          if (message.id === id) finish({ end: "complete" });
+          break;
+      }
+    });
+
+    const onClosed = (detail: string) => {
+      if (events.length > 0) return finish({ end: "closed" });
+      finish({
+        error: new Error(acknowledged
+          ? `The subscription endpoint closed the connection (${detail})`
+          : `Could not connect to the subscription endpoint ${request.url} (${detail})`),
+      });
+    };
+    socket.addEventListener("close", (event) => onClosed(event.reason ? `${event.code} ${event.reason}` : String(event.code)));
+    // A failed handshake is reported as an error without a close event
+    socket.addEventListener("error", (event: any) => onClosed(event.error?.message ?? event.message ?? "connection error"));
+  });
+}
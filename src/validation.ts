@@ -0,0 +1,164 @@
+import {
+  getNamedType,
+  getOperationAST,
+  getVariableValues,
+  GraphQLError,
+  GraphQLNamedType,
+  GraphQLSchema,
+  isIntrospectionType,
+  isSpecifiedScalarType,
+  Kind,
+  printType,
+  TypeInfo,
+  typeFromAST,
+  validate,
+  visit,
+  visitWithTypeInfo,
+  type ASTNode,
+  type DocumentNode,
+} from "graphql";
+
+/* ---------------------------------------------------------------------------
+ * Local operation validation
+ *
+ * Runs the spec validation rules and variable coercion against the loaded
+ * schema so broken operations are rejected with actionable feedback before
+ * they reach the upstream API.
+ * ------------------------------------------------------------------------- */
+
+export interface OperationError {
+  message: string;
+  locations?: { line: number; column: number }[];
+  /** Names graphql-js suggested ("Did you mean ...?") */
+  suggestions?: string[];
+}
+
+export interface OperationValidation {
+  valid: boolean;
+  errors: OperationError[];
+  /** SDL of the types the errors refer to, so the caller can fix the operation */
+  relatedTypes: string[];
+}
+
+// Related type definitions are capped so a broken query cannot flood the context
+const MAX_RELATED_TYPES = 5;
+
+function suggestionsFrom(message: string): string[] | undefined {
+  const match = message.match(/Did you mean (.*)\?$/);
+  if (!match) return undefined;
+  return [...match[1].matchAll(/"([^"]+)"/g)].map((m) => m[1]);
+}
+
+function toOperationError(error: GraphQLError): OperationError {
+  return {
+    message: error.message,
+    locations: error.locations?.map(({ line, column }) => ({ line, column })),
+    suggestions: suggestionsFrom(error.message),
+  };
+}
+
+/**
+ * Map the AST nodes that validation errors point at to the schema types
+ * they were resolved against (parent type of a field, input type of an
+ * argument or variable).
+ */
+function typesByNode(schema: GraphQLSchema, document: DocumentNode): Map<ASTNode, GraphQLNamedType[]> {
+  const typeInfo = new TypeInfo(schema);
+  const result = new Map<ASTNode, GraphQLNamedType[]>();
+  const record = (node: ASTNode, ...types: (GraphQLNamedType | null | undefined)[]) => {
+    const named = types.filter((t): t is GraphQLNamedType => !!t);
+    if (named.length > 0) result.set(node, named);
+  };
+
+  visit(
+    document,
+    visitWithTypeInfo(typeInfo, {
+      Field(node) {
+        record(node, typeInfo.getParentType());
+      },
+      Argument(node) {
+        const inputType = typeInfo.getInputType();
+        record(node, typeInfo.getParentType(), inputType ? getNamedType(inputType) : null);
+      },
+      ObjectField(node) {
+        const parentInputType = typeInfo.getParentInputType();
+        const inputType = typeInfo.getInputType();
+        record(node, parentInputType ? getNamedType(parentInputType) : null, inputType ? getNamedType(inputType) : null);
+      },
+      VariableDefinition(node) {
+        const type = typeFromAST(schema, node.type);
+        record(node, type ? getNamedType(type) : null);
+      },
+    }),
+  );
+  return result;
+}
+
+function relatedTypeDefinitions(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  errors: readonly GraphQLError[],
+): string[] {
+  const nodeTypes = typesByNode(schema, document);
+  const seen = new Set<string>();
+  const definitions: string[] = [];
+
+  for (const error of errors) {
+    for (const node of error.nodes ?? []) {
+      for (const type of nodeTypes.get(node) ?? []) {
+        if (seen.has(type.name) || isIntrospectionType(type) || isSpecifiedScalarType(type)) continue;
+        seen.add(type.name);
+        definitions.push(printType(type));
+      }
+    }
+  }
+  return definitions.slice(0, MAX_RELATED_TYPES);
+}
+
+/**
+ * Validate an operation document and coerce its variables against the schema.
+ * @param schema - The loaded upstream schema
+ * @param document - The parsed operation document
+ * @param variables - Variables as sent by the caller
+ * @param operationName - Operation to check when the document has several
+ */
+export function validateOperation(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables?: Record<string, unknown>,
+  operationName?: string,
+): OperationValidation {
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    return {
+      valid: false,
+      errors: validationErrors.map(toOperationError),
+      relatedTypes: relatedTypeDefinitions(schema, document, validationErrors),
+    };
+  }
+
+  const operation = getOperationAST(document, operationName);
+  if (!operation) {
+    const operationCount = document.definitions.filter((d) => d.kind === Kind.OPERATION_DEFINITION).length;
+    return {
+      valid: false,
+      errors: [{
+        message: operationCount > 1
+          ? "Document contains several operations; only one operation per request is supported here."
+          : `Unknown operation "${operationName}".`,
+      }],
+      relatedTypes: [],
+    };
+  }
+
+  const coerced = getVariableValues(schema, operation.variableDefinitions ?? [], variables ?? {});
+  if (coerced.errors) {
+    return {
+      valid: false,
+      errors: coerced.errors.map(toOperationError),
+      relatedTypes: relatedTypeDefinitions(schema, document, coerced.errors),
+    };
+  }
+
+  return { valid: true, errors: [], relatedTypes: [] };
+}
@@ -0,0 +1,293 @@
+import { QdrantClient } from "@qdrant/js-client-rest";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/* ---------------------------------------------------------------------------
+ * Vector store backends
+ *
+ * `qdrant` – a Qdrant server at QDRANT_URL
+ * `memory` – brute-force cosine search in-process, optionally persisted to
+ *            a JSON file at VECTOR_STORE_PATH so restarts keep the index
+ *
+ * Both support aliases, so a fully built collection can be swapped in for
+ * searches atomically.
+ * ------------------------------------------------------------------------- */
+
+export type VectorPayload = Record<string, unknown>;
+
+export interface VectorPoint {
+  id: string | number;
+  vector: number[];
+  payload: VectorPayload;
+}
+
+type FilterValue = string | number | boolean;
+
+/**
+ * Payload equality filter: every key must match, and an array value matches
+ * any of its elements, e.g. `{ kind: ["object", "interface"], deprecated: false }`.
+ */
+export type VectorFilter = Record<string, FilterValue | FilterValue[]>;
+
+export function matchesFilter(payload: VectorPayload, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, expected]) =>
+    Array.isArray(expected)
+      ? expected.includes(payload[key] as FilterValue)
+      : payload[key] === expected,
+  );
+}
+
+export interface VectorHit {
+  id: string | number;
+  score: number;
+  payload: VectorPayload;
+}
+
+export interface VectorStore {
+  /** Identifier used in logs, e.g. `qdrant:http://localhost:6333` */
+  readonly name: string;
+  /** Drop the collection if it exists and create it empty */
+  recreate(collection: string, dimensions: number): Promise<void>;
+  upsert(collection: string, points: VectorPoint[]): Promise<void>;
+  /** Stored points (including vectors) for the given ids; unknown ids are skipped */
+  retrieve(collection: string, ids: (string | number)[]): Promise<VectorPoint[]>;
+  deleteCollection(collection: string): Promise<void>;
+  /** Collection the alias points to, or null if the alias does not exist */
+  resolveAlias(alias: string): Promise<string | null>;
+  /**
+   * Atomically point the alias at a collection. A plain collection that
+   * already uses the alias name (an index built before aliases) is dropped.
+   */
+  setAlias(alias: string, collection: string): Promise<void>;
+  /** Nearest neighbours by cosine similarity, best first; accepts an alias */
+  search(collection: string, vector: number[], limit: number, filter?: VectorFilter): Promise<VectorHit[]>;
+}
+
+export type VectorStoreKind = "qdrant" | "memory";
+
+export interface VectorStoreOptions {
+  /** Defaults to `qdrant` when `qdrantUrl` is set and to `memory` otherwise */
+  kind?: VectorStoreKind;
+  qdrantUrl?: string;
+  qdrantApiKey?: string;
+  /** File the `memory` store is persisted to */
+  file?: string;
+}
+
+/* ---------- Qdrant ------------------------------------------------------- */
+
+function toQdrantFilter(filter?: VectorFilter) {
+  if (!filter) return undefined;
+  return {
+    must: Object.entries(filter).map(([key, expected]) => ({
+      key,
+      match: Array.isArray(expected) ? { any: expected as (string | number)[] } : { value: expected },
+    })),
+  };
+}
+
+export function createQdrantStore(options: { url: string; apiKey?: string }): VectorStore {
+  const qdrant = new QdrantClient({ url: options.url, apiKey: options.apiKey });
+  return {
+    name: `qdrant:${options.url}`,
+    async recreate(collection, dimensions) {
+      await qdrant.recreateCollection(collection, {
+        vectors: { size: dimensions, distance: "Cosine" },
+      });
+    },
+    async upsert(collection, points) {
+      // Qdrant limits request sizes, so send large indexes in batches
+      for (let i = 0; i < points.length; i += 256) {
+        await qdrant.upsert(collection, { wait: true, points: points.slice(i, i + 256) });
+      }
+    },
+    async retrieve(collection, ids) {
+      if (!(await qdrant.collectionExists(collection)).exists) return [];
+      const points: VectorPoint[] = [];
+      for (let i = 0; i < ids.length; i += 256) {
+        const found = await qdrant.retrieve(collection, {
+          ids: ids.slice(i, i + 256),
+          with_payload: true,
+          with_vector: true,
+        });
+        for (const p of found) {
+          if (Array.isArray(p.vector) && typeof p.vector[0] === "number") {
+            points.push({ id: p.id, vector: p.vector as number[], payload: p.payload ?? {} });
+          }
+        }
+      }
+      return points;
+    },
+    async deleteCollection(collection) {
+      await qdrant.deleteCollection(collection);
+    },
+    async resolveAlias(alias) {
+      const { aliases } = await qdrant.getAliases();
+      return aliases.find((a) => a.alias_name === alias)?.collection_name ?? null;
+    },
+    async setAlias(alias, collection) {
+      const current = await this.resolveAlias(alias);
+      if (!current && (await qdrant.collectionExists(alias)).exists) {
+        console.warn(`[VectorStore] Replacing plain collection '${alias}' with an alias`);
+        await qdrant.deleteCollection(alias);
+      }
+      await qdrant.updateCollectionAliases({
+        actions: [
+          ...(current ? [{ delete_alias: { alias_name: alias } }] : []),
+          { create_alias: { alias_name: alias, collection_name: collection } },
+        ],
+      });
+    },
+    async search(collection, vector, limit, filter) {
+      const hits = await qdrant.search(collection, { vector, limit, filter: toQdrantFilter(filter) });
+      return hits.map((h) => ({ id: h.id, score: h.score, payload: h.payload ?? {} }));
+    },
+  };
+}
+
+/* ---------- in-memory (optionally file-backed) --------------------------- */
+
+interface MemoryCollection {
+  dimensions: number;
+  points: Map<string | number, VectorPoint & { norm: number }>;
+}
+
+interface MemoryStoreFile {
+  version: 1;
+  collections: Record<string, { dimensions: number; points: VectorPoint[] }>;
+  aliases?: Record<string, string>;
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+}
+
+export function createMemoryStore(options: { file?: string } = {}): VectorStore {
+  const collections = new Map<string, MemoryCollection>();
+  const aliases = new Map<string, string>();
+  let loaded: Promise<void> | null = null;
+
+  // Load the persisted index once, on first access
+  const ensureLoaded = () => {
+    loaded ??= (async () => {
+      if (!options.file) return;
+      let raw: string;
+      try {
+        raw = await readFile(options.file, "utf8");
+      } catch (error: any) {
+        if (error.code === "ENOENT") return;
+        throw error;
+      }
+      const data = JSON.parse(raw) as MemoryStoreFile;
+      for (const [name, col] of Object.entries(data.collections ?? {})) {
+        collections.set(name, {
+          dimensions: col.dimensions,
+          points: new Map(col.points.map((p) => [p.id, { ...p, norm: norm(p.vector) }])),
+        });
+      }
+      for (const [alias, target] of Object.entries(data.aliases ?? {})) aliases.set(alias, target);
+      console.log(`[VectorStore] Loaded ${collections.size} collection(s) from ${options.file}`);
+    })();
+    return loaded;
+  };
+
+  // Write to a temp file and rename so a crash never leaves a half-written index
+  const persist = async () => {
+    if (!options.file) return;
+    const data: MemoryStoreFile = { version: 1, collections: {}, aliases: Object.fromEntries(aliases) };
+    for (const [name, col] of collections) {
+      data.collections[name] = {
+        dimensions: col.dimensions,
+        points: [...col.points.values()].map(({ id, vector, payload }) => ({ id, vector, payload })),
+      };
+    }
+    await mkdir(path.dirname(options.file), { recursive: true });
+    const tmp = `${options.file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(data));
+    await rename(tmp, options.file);
+  };
+
+  const getCollection = (collection: string): MemoryCollection => {
+    const col = collections.get(aliases.get(collection) ?? collection);
+    if (!col) throw new Error(`Collection '${collection}' does not exist`);
+    return col;
+  };
+
+  return {
+    name: options.file ? `memory:${options.file}` : "memory",
+    async recreate(collection, dimensions) {
+      await ensureLoaded();
+      collections.set(collection, { dimensions, points: new Map() });
+      await persist();
+    },
+    async upsert(collection, points) {
+      await ensureLoaded();
+      const col = getCollection(collection);
+      for (const p of points) {
+        if (p.vector.length !== col.dimensions) {
+          throw new Error(`Vector size ${p.vector.length} does not match collection size ${col.dimensions}`);
+        }
+        col.points.set(p.id, { ...p, norm: norm(p.vector) });
+      }
+      await persist();
+    },
+    async retrieve(collection, ids) {
+      await ensureLoaded();
+      const col = collections.get(collection);
+      if (!col) return [];
+      return ids
+        .map((id) => col.points.get(id))
+        .filter((p) => p !== undefined)
+        .map(({ id, vector, payload }) => ({ id, vector, payload }));
+    },
+    async deleteCollection(collection) {
+      await ensureLoaded();
+      collections.delete(collection);
+      await persist();
+    },
+    async resolveAlias(alias) {
+      await ensureLoaded();
+      return aliases.get(alias) ?? null;
+    },
+    async setAlias(alias, collection) {
+      await ensureLoaded();
+      if (!collections.has(collection)) throw new Error(`Collection '${collection}' does not exist`);
+      collections.delete(alias);
+      aliases.set(alias, collection);
+      await persist();
+    },
+    async search(collection, vector, limit, filter) {
+      await ensureLoaded();
+      const col = getCollection(collection);
+      const qNorm = norm(vector);
+      const scored: VectorHit[] = [];
+      for (const p of col.points.values()) {
+        if (!matchesFilter(p.payload, filter)) continue;
+        let dot = 0;
+        for (let i = 0; i < vector.length; i++) dot += vector[i] * p.vector[i];
+        const denom = qNorm * p.norm;
+        scored.push({ id: p.id, score: denom > 0 ? dot / denom : 0, payload: p.payload });
+      }
+      return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
+
+/**
+ * Build the vector store selected by VECTOR_STORE. Defaults to Qdrant when
+ * QDRANT_URL is set and to the in-memory store otherwise.
+ */
+export function createVectorStore(options: VectorStoreOptions): VectorStore {
+  const kind = options.kind ?? (options.qdrantUrl ? "qdrant" : "memory");
+
+  switch (kind) {
+    case "qdrant":
+      if (!options.qdrantUrl) {
+        throw new Error("QDRANT_URL is required when VECTOR_STORE=qdrant");
+      }
+      return createQdrantStore({ url: options.qdrantUrl, apiKey: options.qdrantApiKey });
+    case "memory":
+      return createMemoryStore({ file: options.file });
+  }
+}
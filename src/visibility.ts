@@ -0,0 +1,337 @@
+import {
+  DefinitionNode,
+  DirectiveNode,
+  DocumentNode,
+  FieldDefinitionNode,
+  InputValueDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  OperationTypeNode,
+  SelectionSetNode,
+  TypeDefinitionNode,
+  TypeNode,
+  isTypeDefinitionNode,
+  parse,
+  print,
+} from "graphql";
+import { z } from "zod";
+import { globToRegExp } from "./patterns.js";
+
+/* ---------------------------------------------------------------------------
+ * Schema visibility
+ *
+ * Rules that cut a schema down to the part agents may see. Everything else
+ * is removed from the SDL before it is indexed, served as a resource or
+ * used to validate operations, so a hidden field fails validation exactly
+ * like one that does not exist. Whatever depends on a hidden element goes
+ * with it: fields returning a hidden type, fields with a required argument
+ * of a hidden type, and types nothing visible leads to any more.
+ * ------------------------------------------------------------------------- */
+
+export const VisibilityRulesSchema = z
+  .object({
+    /**
+     * `Type` or `Type.field` patterns; when set, only the object and
+     * interface types and fields they match are visible
+     */
+    allow: z.array(z.string()).optional(),
+    /** `Type` hides a type, `Type.member` a field, input field or enum value */
+    deny: z.array(z.string()).optional(),
+    /** Hide every element carrying one of these directives, e.g. `internal` or `@internal` */
+    denyDirectives: z.array(z.string()).optional(),
+  })
+  .strict();
+
+export type VisibilityRules = z.infer<typeof VisibilityRulesSchema>;
+
+export function hasVisibilityRules(rules: VisibilityRules | undefined): rules is VisibilityRules {
+  return Boolean(rules?.allow || rules?.deny?.length || rules?.denyDirectives?.length);
+}
+
+// The only applied directive an introspection result carries, as a deprecation reason
+const INTROSPECTED_DIRECTIVES = new Set(["deprecated"]);
+
+/**
+ * The `denyDirectives` that cannot hide anything in a schema read from an
+ * introspection result, which leaves out applied custom directives such as
+ * `@internal`. Only SDL sources keep them.
+ */
+export function directivesLostInIntrospection(rules: VisibilityRules | undefined): string[] {
+  return (rules?.denyDirectives ?? [])
+    .map((name) => name.replace(/^@/, ""))
+    .filter((name) => !INTROSPECTED_DIRECTIVES.has(name));
+}
+
+/** The error for denying such directives on a schema read by introspection */
+export function lostDirectivesError(directives: string[], source: string): Error {
+  return new Error(
+    `The visibility rules deny ${directives.map((name) => `@${name}`).join(", ")}, but the schema from ${source} ` +
+      "is an introspection result, which does not include applied directives, so nothing would be hidden. " +
+      "Read the schema from SDL (SCHEMA or ENDPOINT_SCHEMA=federation), or hide those elements with deny patterns.",
+  );
+}
+
+export interface VisibleSchema {
+  schemaSDL: string;
+  hiddenTypes: number;
+  /** Fields, input fields, enum values and arguments */
+  hiddenMembers: number;
+}
+
+interface PatternSet {
+  types: RegExp[];
+  members: { type: RegExp; member: RegExp }[];
+}
+
+function compilePatterns(patterns: string[]): PatternSet {
+  const set: PatternSet = { types: [], members: [] };
+  for (const pattern of patterns) {
+    const dot = pattern.indexOf(".");
+    if (dot < 0) set.types.push(globToRegExp(pattern));
+    else set.members.push({ type: globToRegExp(pattern.slice(0, dot)), member: globToRegExp(pattern.slice(dot + 1)) });
+  }
+  return set;
+}
+
+const matchesType = (set: PatternSet, type: string) => set.types.some((pattern) => pattern.test(type));
+
+const matchesMember = (set: PatternSet, type: string, member: string) =>
+  set.members.some((pattern) => pattern.type.test(type) && pattern.member.test(member));
+
+function namedType(type: TypeNode): string {
+  return type.kind === Kind.NAMED_TYPE ? type.name.value : namedType(type.type);
+}
+
+// Leaving out a required argument or input field would make the parent unusable
+function isRequired(value: InputValueDefinitionNode): boolean {
+  return value.type.kind === Kind.NON_NULL_TYPE && !value.defaultValue;
+}
+
+type Fields = readonly FieldDefinitionNode[];
+
+/**
+ * Drop the arguments `hidden` matches; a field that loses a required
+ * argument is dropped too
+ */
+function filterArguments(fields: Fields, hidden: (argument: InputValueDefinitionNode) => boolean): Fields {
+  return fields.flatMap((field) => {
+    const args = field.arguments ?? [];
+    const kept = args.filter((argument) => !hidden(argument));
+    if (kept.length === args.length) return [field];
+    if (args.some((argument) => hidden(argument) && isRequired(argument))) return [];
+    return [{ ...field, arguments: kept }];
+  });
+}
+
+/**
+ * Apply the rules to a schema and return the SDL of what is left. Parts of
+ * the SDL that are not types, such as directive definitions, are kept
+ * unless their directive is one of `denyDirectives`.
+ */
+export function applyVisibility(schemaSDL: string, rules: VisibilityRules): VisibleSchema {
+  const document = parse(schemaSDL);
+  const allow = rules.allow && compilePatterns(rules.allow);
+  const deny = compilePatterns(rules.deny ?? []);
+  const deniedDirectives = new Set((rules.denyDirectives ?? []).map((name) => name.replace(/^@/, "")));
+  const denied = (node: { directives?: readonly DirectiveNode[] }) =>
+    node.directives?.some((directive) => deniedDirectives.has(directive.name.value)) ?? false;
+
+  const original = new Map<string, TypeDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (isTypeDefinitionNode(definition)) original.set(definition.name.value, definition);
+  }
+  const types = new Map(original);
+  const removed = new Set<string>();
+  const hide = (name: string) => {
+    types.delete(name);
+    removed.add(name);
+  };
+
+  // 1. What the rules hide directly
+  for (const [name, type] of original) {
+    if (matchesType(deny, name) || denied(type)) {
+      hide(name);
+      continue;
+    }
+    switch (type.kind) {
+      case Kind.OBJECT_TYPE_DEFINITION:
+      case Kind.INTERFACE_TYPE_DEFINITION: {
+        const fields = (type.fields ?? []).filter((field) =>
+          !denied(field) &&
+          !matchesMember(deny, name, field.name.value) &&
+          (!allow || matchesType(allow, name) || matchesMember(allow, name, field.name.value)),
+        );
+        types.set(name, { ...type, fields: filterArguments(fields, denied) });
+        break;
+      }
+      case Kind.INPUT_OBJECT_TYPE_DEFINITION: {
+        const hidden = (field: InputValueDefinitionNode) => denied(field) || matchesMember(deny, name, field.name.value);
+        if ((type.fields ?? []).some((field) => hidden(field) && isRequired(field))) hide(name);
+        else types.set(name, { ...type, fields: (type.fields ?? []).filter((field) => !hidden(field)) });
+        break;
+      }
+      case Kind.ENUM_TYPE_DEFINITION:
+        types.set(name, {
+          ...type,
+          values: (type.values ?? []).filter((value) => !denied(value) && !matchesMember(deny, name, value.name.value)),
+        });
+        break;
+    }
+  }
+
+  // 2. What depends on something hidden, until nothing changes
+  const visible = (type: TypeNode) => !removed.has(namedType(type));
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const [name, type] of types) {
+      let next: TypeDefinitionNode | null = type;
+      switch (type.kind) {
+        case Kind.OBJECT_TYPE_DEFINITION:
+        case Kind.INTERFACE_TYPE_DEFINITION: {
+          const fields = filterArguments((type.fields ?? []).filter((field) => visible(field.type)), (argument) => !visible(argument.type));
+          const interfaces = (type.interfaces ?? []).filter(visible);
+          next = fields.length === 0
+            ? null
+            : fields.length !== type.fields?.length || fields.some((field, i) => field !== type.fields![i]) || interfaces.length !== (type.interfaces ?? []).length
+              ? { ...type, fields, interfaces }
+              : type;
+          break;
+        }
+        case Kind.INPUT_OBJECT_TYPE_DEFINITION: {
+          const fields = type.fields ?? [];
+          const kept = fields.filter((field) => visible(field.type));
+          next = kept.length === 0 || fields.some((field) => !visible(field.type) && isRequired(field))
+            ? null
+            : kept.length !== fields.length ? { ...type, fields: kept } : type;
+          break;
+        }
+        case Kind.UNION_TYPE_DEFINITION: {
+          const members = (type.types ?? []).filter(visible);
+          next = members.length === 0 ? null : members.length !== type.types?.length ? { ...type, types: members } : type;
+          break;
+        }
+        case Kind.ENUM_TYPE_DEFINITION:
+          next = type.values?.length ? type : null;
+          break;
+      }
+      if (next === type) continue;
+      changed = true;
+      if (next) types.set(name, next);
+      else hide(name);
+    }
+  }
+
+  // 3. Types nothing visible leads to, e.g. the input of a hidden mutation
+  const schemaDefinitions = document.definitions.filter(
+    (definition) => definition.kind === Kind.SCHEMA_DEFINITION || definition.kind === Kind.SCHEMA_EXTENSION,
+  );
+  const rootNames = schemaDefinitions.flatMap((definition) => definition.operationTypes?.map((root) => root.type.name.value) ?? []);
+  const reachable = new Set<string>();
+  const pending = rootNames.length > 0 ? rootNames : ["Query", "Mutation", "Subscription"];
+  for (const definition of document.definitions) {
+    // Directive arguments may use input types and enums too
+    if (definition.kind === Kind.DIRECTIVE_DEFINITION && !deniedDirectives.has(definition.name.value)) {
+      pending.push(...(definition.arguments ?? []).map((argument) => namedType(argument.type)));
+    }
+  }
+  const implementations = new Map<string, string[]>();
+  for (const [name, type] of types) {
+    if (type.kind !== Kind.OBJECT_TYPE_DEFINITION && type.kind !== Kind.INTERFACE_TYPE_DEFINITION) continue;
+    for (const implemented of type.interfaces ?? []) {
+      implementations.set(implemented.name.value, [...(implementations.get(implemented.name.value) ?? []), name]);
+    }
+  }
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    const type = types.get(name);
+    if (reachable.has(name) || !type) continue;
+    reachable.add(name);
+    switch (type.kind) {
+      case Kind.OBJECT_TYPE_DEFINITION:
+      case Kind.INTERFACE_TYPE_DEFINITION:
+        for (const field of type.fields ?? []) {
+          pending.push(namedType(field.type), ...(field.arguments ?? []).map((argument) => namedType(argument.type)));
+        }
+        pending.push(...(type.interfaces ?? []).map((implemented) => implemented.name.value));
+        pending.push(...(implementations.get(name) ?? []));
+        break;
+      case Kind.INPUT_OBJECT_TYPE_DEFINITION:
+        pending.push(...(type.fields ?? []).map((field) => namedType(field.type)));
+        break;
+      case Kind.UNION_TYPE_DEFINITION:
+        pending.push(...(type.types ?? []).map((member) => member.name.value));
+        break;
+    }
+  }
+  for (const name of [...types.keys()]) {
+    if (!reachable.has(name)) hide(name);
+  }
+
+  // 4. Reassemble in the original order
+  const definitions = document.definitions.flatMap((definition): DefinitionNode[] => {
+    if (isTypeDefinitionNode(definition)) {
+      const type = types.get(definition.name.value);
+      return type ? [type] : [];
+    }
+    if (definition.kind === Kind.DIRECTIVE_DEFINITION) return deniedDirectives.has(definition.name.value) ? [] : [definition];
+    if (definition.kind === Kind.SCHEMA_DEFINITION || definition.kind === Kind.SCHEMA_EXTENSION) {
+      const operationTypes = definition.operationTypes?.filter((root) => types.has(root.type.name.value));
+      if (definition.kind === Kind.SCHEMA_DEFINITION && operationTypes?.length === 0) return [];
+      return [{ ...definition, operationTypes }] as DefinitionNode[];
+    }
+    return [definition];
+  });
+
+  const memberCount = (type: TypeDefinitionNode) => {
+    switch (type.kind) {
+      case Kind.OBJECT_TYPE_DEFINITION:
+      case Kind.INTERFACE_TYPE_DEFINITION:
+        return (type.fields ?? []).reduce((count, field) => count + 1 + (field.arguments?.length ?? 0), 0);
+      case Kind.INPUT_OBJECT_TYPE_DEFINITION:
+        return type.fields?.length ?? 0;
+      case Kind.ENUM_TYPE_DEFINITION:
+        return type.values?.length ?? 0;
+      default:
+        return 0;
+    }
+  };
+  let hiddenMembers = 0;
+  for (const [name, type] of types) hiddenMembers += memberCount(original.get(name)!) - memberCount(type);
+
+  return {
+    schemaSDL: print({ kind: Kind.DOCUMENT, definitions }),
+    hiddenTypes: original.size - types.size,
+    hiddenMembers,
+  };
+}
+
+/**
+ * Whether the top-level selection of an operation asks for `__schema` or
+ * `__type`: not at all, only, or together with other fields. The upstream
+ * would answer those from its full schema, hidden parts included.
+ */
+export function introspectionUsage(document: DocumentNode, operation: OperationDefinitionNode): "none" | "only" | "mixed" {
+  const fragments = new Map(
+    document.definitions.flatMap((definition) =>
+      definition.kind === Kind.FRAGMENT_DEFINITION ? [[definition.name.value, definition.selectionSet] as const] : [],
+    ),
+  );
+  const names = new Set<string>();
+  const visited = new Set<string>();
+  const collect = (selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) names.add(selection.name.value);
+      else if (selection.kind === Kind.INLINE_FRAGMENT) collect(selection.selectionSet);
+      else if (!visited.has(selection.name.value)) {
+        visited.add(selection.name.value);
+        const fragment = fragments.get(selection.name.value);
+        if (fragment) collect(fragment);
+      }
+    }
+  };
+  collect(operation.selectionSet);
+  names.delete("__typename");
+  const introspection = [...names].filter((name) => name === "__schema" || name === "__type");
+  if (introspection.length === 0 || operation.operation !== OperationTypeNode.QUERY) return "none";
+  return introspection.length === names.size ? "only" : "mixed";
+}